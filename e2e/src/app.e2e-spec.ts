@@ -6,6 +6,7 @@ describe('ng-event-options App', () => {
     once: {clicks: 2, expect: 1, initial: '0'},
     preventDefault: {clicks: 1, expect: true},
     ngZone: {clicks: 1, expect: true},
+    coalesce: {clicks: 1, expect: true},
     capture: {clicks: 1, expect: true},
     stop: {clicks: 1, expect: 1, initial: '-1'},
     stopEmpty: {clicks: 1, expect: 'stopEmptyTest'}
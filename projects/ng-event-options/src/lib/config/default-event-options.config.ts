@@ -0,0 +1,21 @@
+import { ConflictStrategy } from '../enum/conflict-strategy.enum';
+import { OperatorSymbol } from '../enum/operator-symbol.enum';
+import { TeardownStrategy } from '../enum/teardown-strategy.enum';
+
+import { EventOptionsConfig } from '../interface/event-options-config.interface';
+
+export const defaultEventOptionsConfig: EventOptionsConfig = {
+  operatorParams: {
+    [ OperatorSymbol.Debounce ]: [ 50, 0 ],
+    [ OperatorSymbol.Throttle ]: [ 50, 0 ],
+    [ OperatorSymbol.Hold ]: [ 500, 10 ],
+    [ OperatorSymbol.Count ]: [ 2, 500 ],
+    [ OperatorSymbol.Take ]: [ 1 ],
+    [ OperatorSymbol.Skip ]: [ 1 ]
+  },
+  globalOptions: '',
+  conflictStrategy: ConflictStrategy.Throw,
+  teardownStrategy: TeardownStrategy.Cancel,
+  strict: false,
+  replay: false
+};
@@ -0,0 +1,4 @@
+export enum ConflictStrategy {
+  Throw = 'throw',  // throw an error on conflicting options
+  Warn = 'warn'     // log a warning and drop the option which cannot be honoured
+}
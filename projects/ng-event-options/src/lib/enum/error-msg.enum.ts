@@ -1,4 +1,11 @@
 export const enum ErrorMsg {
   PassivePreventDefault = 'EventOptions: You cannot use \'passive (p)\' and \'preventDefault (d)\' simultaneously',
-  UnsupportedEventTarget = 'Unsupported event target |~ for event |~'
+  UnsupportedEventTarget = 'Unsupported event target |~ for event |~',
+  UnsupportedEvent = 'EventOptions: Unsupported event |~, the event needs at least one option like \'click.*\'',
+  InvalidKey = 'EventOptions: Invalid key \'|~\' in event binding \'|~\'',
+  UnknownOption = 'EventOptions: Unknown option \'|~\' in event binding \'|~\'',
+  DuplicateOption = 'EventOptions: Duplicate option \'|~\' in event binding \'|~\'',
+  UnknownOperator = 'EventOptions: Unknown operator \'|~\' in event binding \'|~\'',
+  MalformedOperator = 'EventOptions: Malformed operator brackets in \'|~\' of event binding \'|~\'',
+  NonNumericParam = 'EventOptions: Parameter \'|~\' of operator \'|~\' is not numeric in event binding \'|~\''
 }
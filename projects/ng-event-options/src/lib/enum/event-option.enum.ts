@@ -6,4 +6,10 @@ export const enum EventOption {
   Stop = 16,
   PreventDefault = 32,
   InBrowser = 64,
+  Force = 128,
+  Exact = 256,
+  Outside = 512,
+  Visible = 1024,
+  InView = 2048,
+  Coalesce = 4096,
 }
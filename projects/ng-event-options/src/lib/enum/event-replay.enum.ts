@@ -0,0 +1,4 @@
+export const enum EventReplay {
+  GlobalKey = 'ngEventOptionsReplay',
+  Attribute = 'data-ng-event-options-replay'
+}
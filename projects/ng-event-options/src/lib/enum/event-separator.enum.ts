@@ -1,5 +1,7 @@
 export const enum EventSeparator {
   Block = '|',
+  // a template attribute name cannot contain `=`, so the conditions of the operator params use `~`, e.g. `flt[button~0]`
+  Condition = '~',
   Operator = ',',
   Option = '.'
 }
@@ -0,0 +1,6 @@
+export enum ModifierKey {
+  Alt = 'alt',
+  Control = 'control',
+  Meta = 'meta',
+  Shift = 'shift'
+}
@@ -0,0 +1,4 @@
+export enum ObserverEventType {
+  Resize = 'resize',
+  Intersect = 'intersect'
+}
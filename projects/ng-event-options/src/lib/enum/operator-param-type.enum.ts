@@ -0,0 +1,4 @@
+export enum OperatorParamType {
+  Number = 'number',
+  String = 'string'
+}
@@ -1,4 +1,12 @@
 export enum OperatorSymbol {
   Debounce = 'db',
-  Throttle = 'th'
+  Throttle = 'th',
+  AnimationFrame = 'raf',
+  Delegate = 'dl',
+  Hold = 'hold',
+  Count = 'cnt',
+  Take = 'take',
+  Skip = 'skip',
+  Filter = 'flt',
+  MediaQuery = 'mq'
 }
@@ -6,5 +6,10 @@ export enum OptionSymbol {
   Once = 'o',             // remove event listener after first invocation
   PreventDefault = 'd',   // prevent default browser behaviour
   InBrowser = 'b',        // only add listener if current environment is the browser
+  Exact = 'e',            // only fire event if the target is the element itself
+  Outside = 'x',          // only fire event if the target is outside of the element
+  Visible = 'v',          // only listen while the page is visible
+  InView = 'i',           // only listen while the element is in the viewport
+  Coalesce = 'f',         // fire event outside of the angular zone, and run change detection once per animation frame
   Force = '*'             // force usage of ng-event-options
 }
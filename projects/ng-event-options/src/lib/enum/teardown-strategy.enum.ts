@@ -0,0 +1,4 @@
+export enum TeardownStrategy {
+  Cancel = 'cancel',  // drop pending operator invocations when the event listener is removed
+  Flush = 'flush'     // perform pending operator invocations when the event listener is removed
+}
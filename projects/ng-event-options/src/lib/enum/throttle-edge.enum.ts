@@ -0,0 +1,5 @@
+export enum ThrottleEdge {
+  Leading = 'leading',    // call the listener at the start of the throttle window
+  Trailing = 'trailing',  // call the listener with the latest event at the end of the throttle window
+  Both = 'both'           // call the listener at the start and with the latest event at the end of the throttle window
+}
@@ -0,0 +1,73 @@
+import { formatOptions, parseEventName, parseOptions } from './event-name.grammar';
+
+import { ErrorMsg } from '../enum/error-msg.enum';
+import { EventOption } from '../enum/event-option.enum';
+import { OperatorParamType } from '../enum/operator-param-type.enum';
+
+import { EventDescriptor } from '../interface/event-descriptor.interface';
+import { EventOperator } from '../interface/event-operator.interface';
+
+describe('Event name grammar', () => {
+  const operators: EventOperator[] = [
+    { symbol: 'db', paramTypes: [ OperatorParamType.Number ], apply: (listener: EventListener) => listener },
+    { symbol: 'sel', apply: (listener: EventListener) => listener }
+  ];
+
+  const parse = (eventName: string): EventDescriptor => parseEventName(eventName, operators);
+
+  it('should parse the option symbols to a bit value', () => {
+    expect(parseOptions('')).toEqual(0);
+    expect(parseOptions('pn')).toEqual(EventOption.Passive + EventOption.NoZone);
+    expect(parseOptions('c*')).toEqual(EventOption.Capture + EventOption.Force);
+  });
+
+  it('should format the bit value to the option symbols', () => {
+    expect(formatOptions(0)).toEqual('');
+    expect(formatOptions(parseOptions('np'))).toEqual('np');
+    expect(formatOptions(parseOptions('*pc'))).toEqual('cp*');
+  });
+
+  it('should parse the type, key and options', () => {
+    expect(parse(' click . pc ')).toEqual({
+      type: 'click', key: '', options: EventOption.Passive + EventOption.Capture, operators: [], error: undefined
+    });
+    expect(parse('keydown.Shift.Control.A.s*')).toEqual({
+      type: 'keydown', key: 'control.shift.a', options: EventOption.Stop + EventOption.Force, operators: [], error: undefined
+    });
+  });
+
+  it('should not parse observer events without options', () => {
+    expect(parse('resize')).toEqual({ type: '', key: '', options: 0, operators: [], error: undefined });
+    expect(parse('intersect|db[50]')).toEqual({ type: '', key: '', options: 0, operators: [], error: undefined });
+  });
+
+  it('should parse the operators in order with their params', () => {
+    expect(parse('click.*|sel[a[href], .row],db[50]').operators).toEqual([
+      { symbol: 'sel', params: [ 'a[href]', '.row' ] },
+      { symbol: 'db', params: [ '50' ] }
+    ]);
+    expect(parse('click.*|db, sel[]').operators).toEqual([
+      { symbol: 'db', params: [] },
+      { symbol: 'sel', params: [ '' ] }
+    ]);
+  });
+
+  it('should allow option separators inside the operator params', () => {
+    expect(parse('click.n|sel[.row-action]').operators).toEqual([ { symbol: 'sel', params: [ '.row-action' ] } ]);
+  });
+
+  it('should not set an error for event bindings which are not meant for this module', () => {
+    [ 'click', 'keydown.enter', 'keydown.shift.c', 'keyup.control.shift.enter', 'keydown.esc', 'keydown.end', 'keydown.shift.esc' ]
+      .forEach(eventName =>
+        expect(parse(eventName)).toEqual({ type: '', key: '', options: 0, operators: [], error: undefined })
+      );
+  });
+
+  it('should set the first error and drop unknown operators', () => {
+    const { type, operators: parsedOperators, error }: EventDescriptor = parse('click.*|th[50],db[fast],sel');
+
+    expect(type).toEqual('click');
+    expect(parsedOperators.map(({ symbol }) => symbol)).toEqual([ 'db', 'sel' ]);
+    expect(error).toEqual({ msg: ErrorMsg.UnknownOperator, params: [ 'th', 'click.*|th[50],db[fast],sel' ] });
+  });
+});
@@ -0,0 +1,223 @@
+import { ErrorMsg } from '../enum/error-msg.enum';
+import { EventOption } from '../enum/event-option.enum';
+import { EventSeparator } from '../enum/event-separator.enum';
+import { ModifierKey } from '../enum/modifier-key.enum';
+import { OperatorParamType } from '../enum/operator-param-type.enum';
+import { OptionSymbol } from '../enum/option-symbol.enum';
+
+import { EventDescriptor } from '../interface/event-descriptor.interface';
+import { EventOperator } from '../interface/event-operator.interface';
+import { OperatorDescriptor } from '../interface/operator-descriptor.interface';
+import { ParseError } from '../interface/parse-error.interface';
+
+import { parseFullKey } from '../helper/parse-full-key';
+
+const optionBits: { [O in OptionSymbol]: EventOption } = {
+  [ OptionSymbol.Capture ]: EventOption.Capture,
+  [ OptionSymbol.NoZone ]: EventOption.NoZone,
+  [ OptionSymbol.Passive ]: EventOption.Passive,
+  [ OptionSymbol.Stop ]: EventOption.Stop,
+  [ OptionSymbol.Once ]: EventOption.Once,
+  [ OptionSymbol.PreventDefault ]: EventOption.PreventDefault,
+  [ OptionSymbol.InBrowser ]: EventOption.InBrowser,
+  [ OptionSymbol.Exact ]: EventOption.Exact,
+  [ OptionSymbol.Outside ]: EventOption.Outside,
+  [ OptionSymbol.Visible ]: EventOption.Visible,
+  [ OptionSymbol.InView ]: EventOption.InView,
+  [ OptionSymbol.Coalesce ]: EventOption.Coalesce,
+  [ OptionSymbol.Force ]: EventOption.Force
+};
+
+const keyEvents: string[] = [ 'keydown', 'keypress', 'keyup' ];
+
+const modifierKeys: string[] = Object.keys(ModifierKey).map(modifierKey => ModifierKey[ modifierKey as any ]);
+
+// key names which only consist of option symbols, like `keydown.esc`
+const optionKeyNames: string[] = [ 'end', 'esc' ];
+
+const unsupported = (error?: ParseError): EventDescriptor => ({ type: '', key: '', options: 0, operators: [], error });
+
+const createError = (msg: ErrorMsg, ...params: string[]): ParseError => ({ msg, params });
+
+// returns the bit value of the option symbols, ignoring unknown symbols
+export function parseOptions(options: string): number {
+  return options.split('').reduce((bitVal, option) => bitVal | (optionBits[ option as OptionSymbol ] || 0), 0);
+}
+
+// returns the option symbols of the bit value, in the order of the option bits
+export function formatOptions(options: number): string {
+  return Object.keys(optionBits).filter(option => options & optionBits[ option as OptionSymbol ]).join('');
+}
+
+// parses an event binding like `keydown.control.s.pn|th[50,1],db[100]`, the operators are validated against the given operators
+export function parseEventName(eventName: string, eventOperators: EventOperator[]): EventDescriptor {
+  // operator parameters are allowed to contain an option separator, so split those off first
+  const blockIndex: number = eventName.indexOf(EventSeparator.Block);
+  const name: string = blockIndex > -1 ? eventName.slice(0, blockIndex) : eventName;
+  const parts: string[] = name.split(EventSeparator.Option).map(part => part.trim());
+  const type: string = parts.shift() as string;
+  const options: string | undefined = parts.pop();
+  const keyEvent: boolean = keyEvents.includes(type);
+  let key = '';
+
+  const parseBlock = (): { operators: OperatorDescriptor[], error?: ParseError } =>
+    blockIndex > -1 ? parseOperators(eventName.slice(blockIndex + 1), eventName, eventOperators) : { operators: [] };
+
+  // if no options or no event type is found
+  if (options === undefined || !type) {
+    return unsupported();
+  }
+
+  // a key event which can be handled by angular, like `keydown.shift.c` or `keydown.esc`, is only supported when the
+  // last part consists of more than one valid option and is not a key name, like `keydown.shift.pn` or `keydown.esc*`
+  if (keyEvent && parts.every(part => modifierKeys.includes(part.toLowerCase()))) {
+    if (options.length === 1 || !isValidOptions(options) || optionKeyNames.includes(options.toLowerCase())) {
+      return unsupported();
+    }
+
+    key = parseFullKey(parts);
+  } else if (parts.length) {
+    key = keyEvent ? parseFullKey(parts) : '';
+
+    if (!key) {
+      return unsupported(createError(ErrorMsg.InvalidKey, parts.join(EventSeparator.Option), eventName));
+    }
+  }
+
+  const optionsError: ParseError | undefined = getOptionsError(options, eventName);
+
+  if (optionsError) {
+    return unsupported(optionsError);
+  }
+
+  const { operators, error }: { operators: OperatorDescriptor[], error?: ParseError } = parseBlock();
+
+  return { type, key, options: parseOptions(options), operators, error };
+}
+
+function isValidOptions(options: string): boolean {
+  return !getOptionsError(options, '');
+}
+
+function getOptionsError(options: string, eventName: string): ParseError | undefined {
+  const symbols: string[] = options.split('');
+  const unknownOption: string | undefined = symbols.find(option => !(option in optionBits));
+
+  if (unknownOption !== undefined) {
+    return createError(ErrorMsg.UnknownOption, unknownOption, eventName);
+  }
+
+  const duplicateOption: string | undefined = symbols.find((option, i) => options.indexOf(option) !== i);
+
+  if (duplicateOption !== undefined) {
+    return createError(ErrorMsg.DuplicateOption, duplicateOption, eventName);
+  }
+
+  if (!options) {
+    return createError(ErrorMsg.UnsupportedEvent, eventName);
+  }
+
+  return undefined;
+}
+
+function parseOperators(operatorsStr: string,
+                        eventName: string,
+                        eventOperators: EventOperator[]): { operators: OperatorDescriptor[], error?: ParseError } {
+  const operators: OperatorDescriptor[] = [];
+  const length: number = operatorsStr.length;
+  let error: ParseError | undefined;
+  let index = 0;
+
+  while (index < length) {
+    let end: number = index;
+
+    while (end < length && !'[],'.includes(operatorsStr[ end ])) {
+      end++;
+    }
+
+    const symbol: string = operatorsStr.slice(index, end).trim();
+    let params: string[] = [];
+
+    if (!symbol) {
+      return { operators, error: error || createError(ErrorMsg.MalformedOperator, operatorsStr.slice(index).trim(), eventName) };
+    }
+
+    // the params of an operator are optional, e.g. `raf,th[50]`, and are allowed to contain brackets
+    if (operatorsStr[ end ] === '[') {
+      const paramsEnd: number = findClosingBracket(operatorsStr, end);
+
+      if (paramsEnd === -1) {
+        return { operators, error: error || createError(ErrorMsg.MalformedOperator, operatorsStr.slice(end), eventName) };
+      }
+
+      params = splitParams(operatorsStr.slice(end + 1, paramsEnd));
+      end = paramsEnd + 1;
+    }
+
+    while (end < length && operatorsStr[ end ] === ' ') {
+      end++;
+    }
+
+    if (end < length && operatorsStr[ end ] !== EventSeparator.Operator) {
+      return { operators, error: error || createError(ErrorMsg.MalformedOperator, operatorsStr.slice(end), eventName) };
+    }
+
+    const eventOperator: EventOperator | undefined = eventOperators.find(operator => operator.symbol === symbol);
+
+    if (eventOperator) {
+      error = error || getParamsError(eventOperator, params, eventName);
+      operators.push({ symbol, params });
+    } else {
+      error = error || createError(ErrorMsg.UnknownOperator, symbol, eventName);
+    }
+
+    index = end + 1;
+  }
+
+  return { operators, error };
+}
+
+function findClosingBracket(operatorsStr: string, start: number): number {
+  let depth = 0;
+
+  for (let i = start; i < operatorsStr.length; i++) {
+    if (operatorsStr[ i ] === '[') {
+      depth++;
+    } else if (operatorsStr[ i ] === ']' && --depth === 0) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+// splits on the operator separators which are not nested inside brackets or parentheses
+function splitParams(paramsStr: string): string[] {
+  const params: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < paramsStr.length; i++) {
+    const char: string = paramsStr[ i ];
+
+    if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth--;
+    } else if (char === EventSeparator.Operator && depth === 0) {
+      params.push(paramsStr.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  params.push(paramsStr.slice(start).trim());
+
+  return params;
+}
+
+function getParamsError(operator: EventOperator, params: string[], eventName: string): ParseError | undefined {
+  const paramTypes: OperatorParamType[] = operator.paramTypes || [];
+  const param: string | undefined = params.find((p, i) => !!p && paramTypes[ i ] === OperatorParamType.Number && isNaN(+p));
+
+  return param === undefined ? undefined : createError(ErrorMsg.NonNumericParam, param, operator.symbol, eventName);
+}
@@ -0,0 +1,29 @@
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+
+export const animationFrameEvent = (callback: EventListener): CancelableEventListener => {
+  let frame = 0;
+  let pendingEvent: Event | undefined;
+
+  const cancel = (): void => {
+    cancelAnimationFrame(frame);
+    frame = 0;
+    pendingEvent = undefined;
+  };
+
+  const flush = (): void => {
+    const event: Event | undefined = pendingEvent;
+    cancel();
+
+    if (event) {
+      callback(event);
+    }
+  };
+
+  return Object.assign((event: Event): void => {
+    pendingEvent = event;
+
+    if (!frame) {
+      frame = requestAnimationFrame(flush);
+    }
+  }, { cancel, flush });
+};
@@ -0,0 +1,23 @@
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+
+export const countEvent = (callback: EventListener, count: number = 2, time: number = 500): CancelableEventListener => {
+  let timeout: number | NodeJS.Timer;
+  let counted = 0;
+
+  const cancel = (): void => {
+    clearTimeout(timeout as number);
+    counted = 0;
+  };
+
+  // the window starts at the first event, so all events have to occur within the window
+  return Object.assign((event: Event): void => {
+    if (!counted) {
+      timeout = setTimeout(cancel, time);
+    }
+
+    if (++counted >= count) {
+      cancel();
+      callback(event);
+    }
+  }, { cancel });
+};
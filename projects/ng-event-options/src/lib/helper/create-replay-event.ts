@@ -0,0 +1,11 @@
+import { RecordedEvent } from '../interface/recorded-event.interface';
+
+export const createReplayEvent = (element: HTMLElement, { type, props }: RecordedEvent): Event => {
+  const event: Event = new Event(type);
+
+  // the replayed event is not dispatched, so the target is set to the element of the event binding
+  Object.keys(props).forEach(prop => Object.defineProperty(event, prop, { value: props[ prop ] }));
+  Object.defineProperty(event, 'target', { value: element });
+
+  return event;
+};
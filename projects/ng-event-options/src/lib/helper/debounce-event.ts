@@ -1,14 +1,53 @@
-export const debounceEvent = (callback: EventListener, time: number = 50, immediate: 0 | 1 = 0): EventListener => {
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+
+export const debounceEvent = (callback: EventListener,
+                              time: number = 50,
+                              immediate: 0 | 1 = 0,
+                              maxWait: number = 0): CancelableEventListener => {
   let timeout: number | NodeJS.Timer;
+  let maxTimeout: number | NodeJS.Timer;
   let wait: boolean;
+  let pendingEvent: Event | undefined;
 
-  return (event: Event): void => {
+  const cancel = (): void => {
     clearTimeout(timeout as number);
-    timeout = setTimeout(() => immediate ? wait = false : callback(event), time);
+    clearTimeout(maxTimeout as number);
+    maxTimeout = 0;
+    wait = false;
+    pendingEvent = undefined;
+  };
+
+  const flush = (): void => {
+    const event: Event | undefined = pendingEvent;
+    cancel();
+
+    if (event) {
+      callback(event);
+    }
+  };
+
+  const expire = (): void => {
+    if (immediate) {
+      // the next event will be called immediately again
+      maxTimeout = 0;
+      wait = false;
+    } else {
+      flush();
+    }
+  };
+
+  return Object.assign((event: Event): void => {
+    clearTimeout(timeout as number);
+    pendingEvent = immediate ? undefined : event;
+    timeout = setTimeout(() => immediate ? cancel() : flush(), time);
+
+    if (maxWait && !maxTimeout) {
+      maxTimeout = setTimeout(expire, maxWait);
+    }
 
     if (immediate && !wait) {
       wait = true;
       callback(event);
     }
-  };
+  }, { cancel, flush });
 };
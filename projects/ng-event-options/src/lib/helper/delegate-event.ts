@@ -0,0 +1,22 @@
+import { EventPredicate } from '../type/event-predicate';
+
+export const delegateEvent = (element: HTMLElement, selector: string): EventPredicate => {
+  const matches = (node: Element): boolean => (node.matches || node.msMatchesSelector).call(node, selector);
+
+  return (event: Event): boolean => {
+    let node: Node | null = event.target as Node | null;
+
+    // only the descendants of the element are checked
+    while (node && node !== element) {
+      if (node.nodeType === Node.ELEMENT_NODE && matches(node as Element)) {
+        Object.defineProperty(event, 'delegateTarget', { value: node, configurable: true });
+
+        return true;
+      }
+
+      node = node.parentNode;
+    }
+
+    return false;
+  };
+};
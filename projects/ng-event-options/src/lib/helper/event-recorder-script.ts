@@ -0,0 +1,23 @@
+import { EventReplay } from '../enum/event-replay.enum';
+
+// properties of the recorded events, used by the key events and the filter operator
+const recordedProps: string[] = [ 'key', 'code', 'button', 'altKey', 'ctrlKey', 'metaKey', 'shiftKey', 'clientX', 'clientY' ];
+
+// the recorder runs before the browser app is bootstrapped, so it's plain es5 without any dependencies
+export const eventRecorderScript = (types: string[]): string => `(function (w, d) {
+  var queue = w['${EventReplay.GlobalKey}'] = w['${EventReplay.GlobalKey}'] || { events: [], stopped: false };
+  ${JSON.stringify(types)}.forEach(function (type) {
+    d.addEventListener(type, function (event) {
+      for (var node = event.target; node && node.getAttribute && !queue.stopped; node = event.bubbles ? node.parentNode : null) {
+        (node.getAttribute('${EventReplay.Attribute}') || '').split(' ').forEach(function (binding) {
+          var parts = binding.split(':');
+          var props = {};
+          if (parts[ 0 ] === event.type) {
+            ${JSON.stringify(recordedProps)}.forEach(function (prop) { props[ prop ] = event[ prop ]; });
+            queue.events.push({ id: +parts[ 1 ], type: event.type, props: props });
+          }
+        });
+      }
+    }, true);
+  });
+})(window, document);`;
@@ -0,0 +1,21 @@
+import { EventSeparator } from '../enum/event-separator.enum';
+
+import { EventPredicate } from '../type/event-predicate';
+
+// a condition is either `prop~value`, `prop!~value` or just `prop` to check for a truthy value, e.g. `touches.length~2`
+const createCondition = (condition: string): EventPredicate => {
+  const [ , path, operator, value ]: string[] = condition.match(/^([^!~]+?)\s*(?:(!?~)\s*(.*))?$/) || [ '', condition, '', '' ];
+  const getValue = (event: Event): any => path.split('.').reduce((obj: any, prop: string) => obj == null ? obj : obj[ prop ], event);
+
+  if (!operator) {
+    return (event: Event): boolean => !!getValue(event);
+  }
+
+  return (event: Event): boolean => (`${getValue(event)}` === value) === (operator === EventSeparator.Condition);
+};
+
+export const filterEvent = (conditions: string[]): EventPredicate => {
+  const predicates: EventPredicate[] = conditions.filter(condition => !!condition).map(createCondition);
+
+  return (event: Event): boolean => predicates.every(predicate => predicate(event));
+};
@@ -0,0 +1,5 @@
+import { ErrorMsg } from '../enum/error-msg.enum';
+
+export function formatError(error: ErrorMsg, ...replace: string[]): string {
+  return error.replace(/\|~/g, () => replace.shift() as string);
+}
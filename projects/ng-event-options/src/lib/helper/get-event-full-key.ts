@@ -0,0 +1,37 @@
+import { ModifierKey } from '../enum/modifier-key.enum';
+
+const modifierKeyGetters: { [M in ModifierKey]: (event: KeyboardEvent) => boolean } = {
+  alt: (event: KeyboardEvent) => event.altKey,
+  control: (event: KeyboardEvent) => event.ctrlKey,
+  meta: (event: KeyboardEvent) => event.metaKey,
+  shift: (event: KeyboardEvent) => event.shiftKey
+};
+
+// older browsers do not report the W3C standard key names
+const keyMap: { [key: string]: string } = {
+  '\b': 'backspace',
+  '\t': 'tab',
+  '\x7F': 'delete',
+  '\x1B': 'escape',
+  'del': 'delete',
+  'esc': 'escape',
+  'left': 'arrowleft',
+  'right': 'arrowright',
+  'up': 'arrowup',
+  'down': 'arrowdown',
+  'menu': 'contextmenu',
+  'scroll': 'scrolllock',
+  'win': 'os',
+  ' ': 'space',
+  '.': 'dot'
+};
+
+export function getEventFullKey(event: KeyboardEvent): string {
+  let key: string = (event.key || 'unidentified').toLowerCase();
+  key = keyMap[ key ] || key;
+
+  return Object.keys(ModifierKey).map(modifierKey => ModifierKey[ modifierKey as any ] as ModifierKey)
+    .filter(modifier => modifier !== key && modifierKeyGetters[ modifier ](event))
+    .concat(key as ModifierKey)
+    .join('.');
+}
@@ -0,0 +1,51 @@
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+
+export const holdEvent = (callback: EventListener,
+                          element: HTMLElement,
+                          time: number = 500,
+                          tolerance: number = 10): CancelableEventListener => {
+  // pointers released or moved outside of the element still cancel the hold
+  const target: EventTarget = element.ownerDocument || element;
+  const endEvents: string[] = [ 'pointerup', 'pointercancel' ];
+  let timeout: number | NodeJS.Timer;
+  let origin: PointerEvent | undefined;
+  let removeListeners = (): void => void 0;
+
+  const cancel = (): void => {
+    clearTimeout(timeout as number);
+    origin = undefined;
+    removeListeners();
+  };
+
+  const end: EventListener = (event: Event): void => {
+    if (origin && (event as PointerEvent).pointerId === origin.pointerId) {
+      cancel();
+    }
+  };
+
+  const move: EventListener = (event: Event): void => {
+    const { pointerId, clientX, clientY }: PointerEvent = event as PointerEvent;
+
+    if (origin && pointerId === origin.pointerId && Math.hypot(clientX - origin.clientX, clientY - origin.clientY) > tolerance) {
+      cancel();
+    }
+  };
+
+  return Object.assign((event: Event): void => {
+    cancel();
+    origin = event as PointerEvent;
+
+    timeout = setTimeout(() => {
+      cancel();
+      callback(event);
+    }, time);
+
+    endEvents.forEach(type => target.addEventListener(type, end, true));
+    target.addEventListener('pointermove', move, true);
+
+    removeListeners = (): void => {
+      endEvents.forEach(type => target.removeEventListener(type, end, true));
+      target.removeEventListener('pointermove', move, true);
+    };
+  }, { cancel });
+};
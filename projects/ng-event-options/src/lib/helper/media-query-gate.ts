@@ -0,0 +1,9 @@
+export const mediaQueryGate = (query: string, toggle: (active: boolean) => void): () => void => {
+  const mediaQueryList: MediaQueryList = matchMedia(query);
+  const listener = ({ matches }: MediaQueryList): void => toggle(matches);
+
+  listener(mediaQueryList);
+  mediaQueryList.addListener(listener);
+
+  return (): void => mediaQueryList.removeListener(listener);
+};
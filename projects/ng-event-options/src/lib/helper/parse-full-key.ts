@@ -0,0 +1,20 @@
+import { ModifierKey } from '../enum/modifier-key.enum';
+
+// creates the full key of a key event binding in the same format as `getEventFullKey`
+export function parseFullKey(keyParts: string[]): string {
+  const parts: string[] = keyParts.map(part => part.toLowerCase());
+  let key: string = parts.pop() || '';
+
+  if (key === 'esc') {
+    key = 'escape';
+  }
+
+  const modifiers: string[] = Object.keys(ModifierKey).map(modifierKey => ModifierKey[ modifierKey as any ])
+    .filter(modifier => parts.includes(modifier));
+
+  if (!key || modifiers.length !== parts.length) {
+    return '';
+  }
+
+  return modifiers.concat(key).join('.');
+}
@@ -0,0 +1,8 @@
+import { EventSeparator } from '../enum/event-separator.enum';
+
+// a media feature like `min-width~600px` has no spaces or parentheses, so it can be used inside a template
+export const parseMediaQuery = (params: string[]): string => params.map(param => {
+  const [ feature, value ]: string[] = param.split(EventSeparator.Condition);
+
+  return value === undefined ? param : `(${feature.trim()}: ${value.trim()})`;
+}).join(EventSeparator.Operator);
@@ -0,0 +1,65 @@
+import { ElementObserver } from '../interface/element-observer.interface';
+
+import { ObserveElement } from '../type/observe-element';
+
+// a single observer is created for every observed element, and disconnected once no element is observed anymore
+export const sharedObserver = <E extends { target: Element }>(
+  createObserver: (callback: (entries: E[]) => void) => ElementObserver): ObserveElement<E> => {
+  const subscribers: Map<Element, ((entry: E) => void)[]> = new Map();
+  const lastEntries: Map<Element, E> = new Map();
+  let observer: ElementObserver | undefined;
+
+  const notify = (entries: E[]): void => entries.forEach(entry => {
+    lastEntries.set(entry.target, entry);
+    (subscribers.get(entry.target) || []).slice().forEach(callback => callback(entry));
+  });
+
+  return (element: Element, callback: (entry: E) => void): () => void => {
+    if (!observer) {
+      observer = createObserver(notify);
+    }
+
+    const elementObserver: ElementObserver = observer;
+    const callbacks: ((entry: E) => void)[] | undefined = subscribers.get(element);
+    const lastEntry: E | undefined = lastEntries.get(element);
+
+    if (!callbacks) {
+      subscribers.set(element, [ callback ]);
+      elementObserver.observe(element);
+    } else {
+      callbacks.push(callback);
+
+      // the observer only reports changes, so an element which is already observed gets its last entry, deferred because
+      // the callback could remove its own listener before adding it has returned
+      if (lastEntry) {
+        Promise.resolve().then(() => {
+          if (callbacks.includes(callback) && lastEntries.get(element) === lastEntry) {
+            callback(lastEntry);
+          }
+        });
+      }
+    }
+
+    return (): void => {
+      const elementCallbacks: ((entry: E) => void)[] = subscribers.get(element) || [];
+      const index: number = elementCallbacks.indexOf(callback);
+
+      if (index === -1) {
+        return;
+      }
+
+      elementCallbacks.splice(index, 1);
+
+      if (!elementCallbacks.length) {
+        subscribers.delete(element);
+        lastEntries.delete(element);
+        elementObserver.unobserve(element);
+      }
+
+      if (!subscribers.size) {
+        elementObserver.disconnect();
+        observer = undefined;
+      }
+    };
+  };
+};
@@ -0,0 +1,16 @@
+// skips the event which is dispatching while the listener is added, like the click opening a dropdown which still has to bubble
+export const skipDispatchingEvent = (callback: EventListener): EventListener => {
+  if (typeof window === 'undefined') {
+    return callback;
+  }
+
+  const dispatching: Event | undefined = window.event;
+  const since: number = performance.now();
+
+  // the time stamp covers browsers without `window.event`, older browsers with an epoch time stamp never skip
+  return (event: Event): void => {
+    if (event !== dispatching && event.timeStamp >= since) {
+      callback(event);
+    }
+  };
+};
@@ -0,0 +1,17 @@
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+
+export const skipEvent = (callback: EventListener, count: number = 1): CancelableEventListener => {
+  let skipped = 0;
+
+  const cancel = (): void => {
+    skipped = 0;
+  };
+
+  return Object.assign((event: Event): void => {
+    if (skipped < count) {
+      skipped++;
+    } else {
+      callback(event);
+    }
+  }, { cancel });
+};
@@ -0,0 +1,18 @@
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+
+export const takeEvent = (callback: EventListener, remove: () => void, count: number = 1): CancelableEventListener => {
+  let taken = 0;
+
+  const cancel = (): void => {
+    taken = 0;
+  };
+
+  return Object.assign((event: Event): void => {
+    if (++taken >= count) {
+      remove();
+      cancel();
+    }
+
+    callback(event);
+  }, { cancel });
+};
@@ -1,13 +1,59 @@
-export const throttleEvent = (callback: EventListener, time: number = 50, immediate: 0 | 1 = 0): EventListener => {
+import { ThrottleEdge } from '../enum/throttle-edge.enum';
+
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+
+export const throttleEvent = (callback: EventListener,
+                              time: number = 50,
+                              immediate: 0 | 1 = 0,
+                              edge: ThrottleEdge = immediate ? ThrottleEdge.Leading : ThrottleEdge.Trailing): CancelableEventListener => {
+  const leading: boolean = edge !== ThrottleEdge.Trailing;
+  const trailing: boolean = edge !== ThrottleEdge.Leading;
   let timeout: number | NodeJS.Timer;
+  let pendingEvent: Event | undefined;
+
+  const cancel = (): void => {
+    clearTimeout(timeout as number);
+    timeout = 0;
+    pendingEvent = undefined;
+  };
+
+  const flush = (): void => {
+    const event: Event | undefined = pendingEvent;
+    cancel();
+
+    if (event) {
+      callback(event);
+    }
+  };
 
-  return (event: Event): void => {
-    if (!timeout) {
-      if (immediate) {
+  const startWindow = (): void => {
+    timeout = setTimeout(() => {
+      const event: Event | undefined = pendingEvent;
+      cancel();
+
+      if (event) {
         callback(event);
+
+        // a trailing call opens a new window, otherwise the next leading call could follow immediately
+        if (leading) {
+          startWindow();
+        }
       }
+    }, time);
+  };
 
-      timeout = setTimeout(() => !(timeout = 0) && !immediate ? callback(event) : void 0, time);
+  return Object.assign((event: Event): void => {
+    if (timeout) {
+      pendingEvent = trailing ? event : undefined;
+      return;
     }
-  };
+
+    if (leading) {
+      callback(event);
+    } else {
+      pendingEvent = event;
+    }
+
+    startWindow();
+  }, { cancel, flush });
 };
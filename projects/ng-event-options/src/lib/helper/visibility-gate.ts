@@ -0,0 +1,8 @@
+export const visibilityGate = (doc: Document, toggle: (active: boolean) => void): () => void => {
+  const listener = (): void => toggle(doc.visibilityState !== 'hidden');
+
+  listener();
+  doc.addEventListener('visibilitychange', listener);
+
+  return (): void => doc.removeEventListener('visibilitychange', listener);
+};
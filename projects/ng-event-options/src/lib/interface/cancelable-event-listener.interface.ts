@@ -0,0 +1,6 @@
+export interface CancelableEventListener extends EventListener {
+  // cancels the pending invocation of the listener
+  cancel?(): void;
+  // immediately performs the pending invocation of the listener
+  flush?(): void;
+}
@@ -0,0 +1,4 @@
+export interface DelegateEvent extends Event {
+  // the element matching the selector of the delegate operator
+  delegateTarget: Element;
+}
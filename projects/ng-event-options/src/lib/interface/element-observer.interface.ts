@@ -0,0 +1,5 @@
+export interface ElementObserver {
+  observe(target: Element): void;
+  unobserve(target: Element): void;
+  disconnect(): void;
+}
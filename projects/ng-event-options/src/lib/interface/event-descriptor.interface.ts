@@ -0,0 +1,14 @@
+import { OperatorDescriptor } from './operator-descriptor.interface';
+import { ParseError } from './parse-error.interface';
+
+export interface EventDescriptor {
+  // empty if the event binding is not supported
+  type: string;
+  key: string;
+  // bit value of the EventOption values
+  options: number;
+  // in the order of the event binding, without the unknown operators
+  operators: OperatorDescriptor[];
+  // the first error found in the event binding, only set if the event binding is meant for this module
+  error?: ParseError;
+}
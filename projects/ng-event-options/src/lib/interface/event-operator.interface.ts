@@ -0,0 +1,23 @@
+import { OperatorParamType } from '../enum/operator-param-type.enum';
+
+import { CancelableEventListener } from './cancelable-event-listener.interface';
+
+import { EventPredicate } from '../type/event-predicate';
+
+export interface EventOperator {
+  // symbol used inside the event binding, e.g. `db` for `click.*|db[50,0]`
+  readonly symbol: string;
+
+  // types of the params, used to validate the event binding in strict mode
+  readonly paramTypes?: OperatorParamType[];
+
+  // wraps the listener, the params are parsed from the event binding with the omitted params taken from the configuration,
+  // the element is the target the event listener is added to, and remove removes the event listener from the element
+  apply?(listener: EventListener, params: string[], element: HTMLElement, remove: () => void): CancelableEventListener;
+
+  // creates a predicate which is checked before the event options, so non matching events are not stopped or prevented
+  filter?(params: string[], element: HTMLElement): EventPredicate;
+
+  // controls when the event listener is added to the element by calling toggle, the returned function is called on removal
+  gate?(params: string[], element: HTMLElement, toggle: (active: boolean) => void): () => void;
+}
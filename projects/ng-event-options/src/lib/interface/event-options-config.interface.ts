@@ -0,0 +1,19 @@
+import { ConflictStrategy } from '../enum/conflict-strategy.enum';
+import { TeardownStrategy } from '../enum/teardown-strategy.enum';
+
+export interface EventOptionsConfig {
+  // parameters used for the omitted parameters of an operator, e.g. `{ db: [ 100, 0 ] }`
+  operatorParams: { [symbol: string]: (number | string)[] };
+  // options added to every event binding handled by this module, e.g. `b`
+  globalOptions: string;
+  // behaviour when options are used simultaneously which cannot be combined
+  conflictStrategy: ConflictStrategy;
+  // behaviour for pending operator invocations, like a debounce, when the event listener is removed
+  teardownStrategy: TeardownStrategy;
+  // throw descriptive errors for invalid event bindings in dev mode, assumes every event binding with an option separator,
+  // apart from the key events handled by angular, is meant for this module
+  strict: boolean;
+  // record the interactions with event bindings using the in browser option on the server rendered page, and replay them once
+  // the browser app added the event listeners
+  replay: boolean;
+}
@@ -0,0 +1,6 @@
+import { RecordedEvent } from './recorded-event.interface';
+
+export interface EventReplayQueue {
+  events: RecordedEvent[];
+  stopped: boolean;
+}
@@ -1,5 +0,0 @@
-export interface EventTypeOptions {
-  type: string,
-  options: string,
-  operators: string
-}
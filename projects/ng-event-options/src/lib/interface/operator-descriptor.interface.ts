@@ -0,0 +1,4 @@
+export interface OperatorDescriptor {
+  symbol: string;
+  params: string[];
+}
@@ -0,0 +1,6 @@
+import { ErrorMsg } from '../enum/error-msg.enum';
+
+export interface ParseError {
+  msg: ErrorMsg;
+  params: string[];
+}
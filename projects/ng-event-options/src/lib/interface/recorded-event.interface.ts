@@ -0,0 +1,6 @@
+export interface RecordedEvent {
+  // the event bindings with the in browser option are numbered in the order they are added, on the server and in the browser
+  id: number;
+  type: string;
+  props: { [prop: string]: any };
+}
@@ -0,0 +1,4 @@
+export interface SharedEventListener {
+  listener: EventListener;
+  subscribers: EventListener[];
+}
@@ -1,12 +1,34 @@
-import {NgModule} from '@angular/core';
+import {ModuleWithProviders, NgModule} from '@angular/core';
 import {EVENT_MANAGER_PLUGINS} from '@angular/platform-browser';
 
 import {DomEventOptionsPlugin} from './service/dom-event-options-plugin.service';
+import {EventOptionsService} from './service/event-options.service';
+import {EventReplayService} from './service/event-replay.service';
+import {eventOptionsSupportProvider} from './service/event-options-support.provider';
+
+import {builtInOperatorProviders} from './operator/built-in-operator.providers';
+
+import {EventOptionsConfig} from './interface/event-options-config.interface';
+
+import {EVENT_OPTIONS_CONFIG} from './token/event-options-config.token';
 
 @NgModule({
     providers: [
-        {provide: EVENT_MANAGER_PLUGINS, useClass: DomEventOptionsPlugin, multi: true}
+        DomEventOptionsPlugin,
+        EventOptionsService,
+        EventReplayService,
+        eventOptionsSupportProvider,
+        {provide: EVENT_MANAGER_PLUGINS, useExisting: DomEventOptionsPlugin, multi: true},
+        builtInOperatorProviders
     ]
 })
 export class NgEventOptionsModule {
+    static forRoot(config: Partial<EventOptionsConfig> = {}): ModuleWithProviders<NgEventOptionsModule> {
+        return {
+            ngModule: NgEventOptionsModule,
+            providers: [
+                {provide: EVENT_OPTIONS_CONFIG, useValue: config}
+            ]
+        };
+    }
 }
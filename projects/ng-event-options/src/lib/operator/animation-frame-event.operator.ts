@@ -0,0 +1,18 @@
+import { Injectable } from '@angular/core';
+
+import { OperatorSymbol } from '../enum/operator-symbol.enum';
+
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+import { EventOperator } from '../interface/event-operator.interface';
+
+import { animationFrameEvent } from '../helper/animation-frame-event';
+
+@Injectable()
+export class AnimationFrameEventOperator implements EventOperator {
+
+  readonly symbol: string = OperatorSymbol.AnimationFrame;
+
+  apply(listener: EventListener): CancelableEventListener {
+    return animationFrameEvent(listener);
+  }
+}
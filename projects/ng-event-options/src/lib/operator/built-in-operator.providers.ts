@@ -0,0 +1,27 @@
+import { Provider } from '@angular/core';
+
+import { AnimationFrameEventOperator } from './animation-frame-event.operator';
+import { CountEventOperator } from './count-event.operator';
+import { DebounceEventOperator } from './debounce-event.operator';
+import { DelegateEventOperator } from './delegate-event.operator';
+import { FilterEventOperator } from './filter-event.operator';
+import { HoldEventOperator } from './hold-event.operator';
+import { MediaQueryEventOperator } from './media-query-event.operator';
+import { SkipEventOperator } from './skip-event.operator';
+import { TakeEventOperator } from './take-event.operator';
+import { ThrottleEventOperator } from './throttle-event.operator';
+
+import { EVENT_OPTIONS_OPERATORS } from '../token/event-options-operators.token';
+
+export const builtInOperatorProviders: Provider[] = [
+  { provide: EVENT_OPTIONS_OPERATORS, useClass: DebounceEventOperator, multi: true },
+  { provide: EVENT_OPTIONS_OPERATORS, useClass: ThrottleEventOperator, multi: true },
+  { provide: EVENT_OPTIONS_OPERATORS, useClass: AnimationFrameEventOperator, multi: true },
+  { provide: EVENT_OPTIONS_OPERATORS, useClass: DelegateEventOperator, multi: true },
+  { provide: EVENT_OPTIONS_OPERATORS, useClass: HoldEventOperator, multi: true },
+  { provide: EVENT_OPTIONS_OPERATORS, useClass: CountEventOperator, multi: true },
+  { provide: EVENT_OPTIONS_OPERATORS, useClass: TakeEventOperator, multi: true },
+  { provide: EVENT_OPTIONS_OPERATORS, useClass: SkipEventOperator, multi: true },
+  { provide: EVENT_OPTIONS_OPERATORS, useClass: FilterEventOperator, multi: true },
+  { provide: EVENT_OPTIONS_OPERATORS, useClass: MediaQueryEventOperator, multi: true }
+];
@@ -0,0 +1,21 @@
+import { Injectable } from '@angular/core';
+
+import { OperatorParamType } from '../enum/operator-param-type.enum';
+import { OperatorSymbol } from '../enum/operator-symbol.enum';
+
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+import { EventOperator } from '../interface/event-operator.interface';
+
+import { countEvent } from '../helper/count-event';
+
+@Injectable()
+export class CountEventOperator implements EventOperator {
+
+  readonly symbol: string = OperatorSymbol.Count;
+
+  readonly paramTypes: OperatorParamType[] = [ OperatorParamType.Number, OperatorParamType.Number ];
+
+  apply(listener: EventListener, [ count, time ]: string[]): CancelableEventListener {
+    return countEvent(listener, count ? +count : undefined, time ? +time : undefined);
+  }
+}
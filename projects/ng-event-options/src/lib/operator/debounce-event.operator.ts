@@ -0,0 +1,26 @@
+import { Injectable } from '@angular/core';
+
+import { OperatorParamType } from '../enum/operator-param-type.enum';
+import { OperatorSymbol } from '../enum/operator-symbol.enum';
+
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+import { EventOperator } from '../interface/event-operator.interface';
+
+import { debounceEvent } from '../helper/debounce-event';
+
+@Injectable()
+export class DebounceEventOperator implements EventOperator {
+
+  readonly symbol: string = OperatorSymbol.Debounce;
+
+  readonly paramTypes: OperatorParamType[] = [ OperatorParamType.Number, OperatorParamType.Number, OperatorParamType.Number ];
+
+  apply(listener: EventListener, [ time, immediate, maxWait ]: string[]): CancelableEventListener {
+    return debounceEvent(
+      listener,
+      time ? +time : undefined,
+      immediate ? +immediate as 0 | 1 : undefined,
+      maxWait ? +maxWait : undefined
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { Injectable } from '@angular/core';
+
+import { EventSeparator } from '../enum/event-separator.enum';
+import { OperatorParamType } from '../enum/operator-param-type.enum';
+import { OperatorSymbol } from '../enum/operator-symbol.enum';
+
+import { EventOperator } from '../interface/event-operator.interface';
+
+import { EventPredicate } from '../type/event-predicate';
+
+import { delegateEvent } from '../helper/delegate-event';
+
+@Injectable()
+export class DelegateEventOperator implements EventOperator {
+
+  readonly symbol: string = OperatorSymbol.Delegate;
+
+  readonly paramTypes: OperatorParamType[] = [ OperatorParamType.String ];
+
+  // a selector list like `dl[.row, .cell]` is split into params
+  filter(params: string[], element: HTMLElement): EventPredicate {
+    return delegateEvent(element, params.join(EventSeparator.Operator));
+  }
+}
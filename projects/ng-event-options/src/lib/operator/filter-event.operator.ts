@@ -0,0 +1,19 @@
+import { Injectable } from '@angular/core';
+
+import { OperatorSymbol } from '../enum/operator-symbol.enum';
+
+import { EventOperator } from '../interface/event-operator.interface';
+
+import { EventPredicate } from '../type/event-predicate';
+
+import { filterEvent } from '../helper/filter-event';
+
+@Injectable()
+export class FilterEventOperator implements EventOperator {
+
+  readonly symbol: string = OperatorSymbol.Filter;
+
+  filter(conditions: string[]): EventPredicate {
+    return filterEvent(conditions);
+  }
+}
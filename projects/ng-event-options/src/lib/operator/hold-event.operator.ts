@@ -0,0 +1,21 @@
+import { Injectable } from '@angular/core';
+
+import { OperatorParamType } from '../enum/operator-param-type.enum';
+import { OperatorSymbol } from '../enum/operator-symbol.enum';
+
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+import { EventOperator } from '../interface/event-operator.interface';
+
+import { holdEvent } from '../helper/hold-event';
+
+@Injectable()
+export class HoldEventOperator implements EventOperator {
+
+  readonly symbol: string = OperatorSymbol.Hold;
+
+  readonly paramTypes: OperatorParamType[] = [ OperatorParamType.Number, OperatorParamType.Number ];
+
+  apply(listener: EventListener, [ time, tolerance ]: string[], element: HTMLElement): CancelableEventListener {
+    return holdEvent(listener, element, time ? +time : undefined, tolerance ? +tolerance : undefined);
+  }
+}
@@ -0,0 +1,30 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+
+import { OperatorParamType } from '../enum/operator-param-type.enum';
+import { OperatorSymbol } from '../enum/operator-symbol.enum';
+
+import { EventOperator } from '../interface/event-operator.interface';
+
+import { mediaQueryGate } from '../helper/media-query-gate';
+import { parseMediaQuery } from '../helper/parse-media-query';
+
+@Injectable()
+export class MediaQueryEventOperator implements EventOperator {
+
+  readonly symbol: string = OperatorSymbol.MediaQuery;
+
+  readonly paramTypes: OperatorParamType[] = [ OperatorParamType.String ];
+
+  constructor(@Inject(PLATFORM_ID) private readonly platformId: Object) {
+  }
+
+  // the listener is never added on the server, and a media query list like `mq[print,hover~none]` is split into params
+  gate(params: string[], element: HTMLElement, toggle: (active: boolean) => void): () => void {
+    if (!isPlatformBrowser(this.platformId)) {
+      return (): void => void 0;
+    }
+
+    return mediaQueryGate(parseMediaQuery(params), toggle);
+  }
+}
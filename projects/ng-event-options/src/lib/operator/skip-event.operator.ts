@@ -0,0 +1,21 @@
+import { Injectable } from '@angular/core';
+
+import { OperatorParamType } from '../enum/operator-param-type.enum';
+import { OperatorSymbol } from '../enum/operator-symbol.enum';
+
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+import { EventOperator } from '../interface/event-operator.interface';
+
+import { skipEvent } from '../helper/skip-event';
+
+@Injectable()
+export class SkipEventOperator implements EventOperator {
+
+  readonly symbol: string = OperatorSymbol.Skip;
+
+  readonly paramTypes: OperatorParamType[] = [ OperatorParamType.Number ];
+
+  apply(listener: EventListener, [ count ]: string[]): CancelableEventListener {
+    return skipEvent(listener, count ? +count : undefined);
+  }
+}
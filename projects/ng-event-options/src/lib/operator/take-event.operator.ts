@@ -0,0 +1,22 @@
+import { Injectable } from '@angular/core';
+
+import { OperatorParamType } from '../enum/operator-param-type.enum';
+import { OperatorSymbol } from '../enum/operator-symbol.enum';
+
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+import { EventOperator } from '../interface/event-operator.interface';
+
+import { takeEvent } from '../helper/take-event';
+
+@Injectable()
+export class TakeEventOperator implements EventOperator {
+
+  readonly symbol: string = OperatorSymbol.Take;
+
+  readonly paramTypes: OperatorParamType[] = [ OperatorParamType.Number ];
+
+  // the event listener is removed after the last taken event, the same way as the once option without native support
+  apply(listener: EventListener, [ count ]: string[], element: HTMLElement, remove: () => void): CancelableEventListener {
+    return takeEvent(listener, remove, count ? +count : undefined);
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable } from '@angular/core';
+
+import { OperatorParamType } from '../enum/operator-param-type.enum';
+import { OperatorSymbol } from '../enum/operator-symbol.enum';
+import { ThrottleEdge } from '../enum/throttle-edge.enum';
+
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+import { EventOperator } from '../interface/event-operator.interface';
+
+import { throttleEvent } from '../helper/throttle-event';
+
+@Injectable()
+export class ThrottleEventOperator implements EventOperator {
+
+  readonly symbol: string = OperatorSymbol.Throttle;
+
+  readonly paramTypes: OperatorParamType[] = [ OperatorParamType.Number, OperatorParamType.Number, OperatorParamType.String ];
+
+  private readonly edges: string[] = [ ThrottleEdge.Leading, ThrottleEdge.Trailing, ThrottleEdge.Both ];
+
+  apply(listener: EventListener, [ time, immediate, edge ]: string[]): CancelableEventListener {
+    return throttleEvent(
+      listener,
+      time ? +time : undefined,
+      immediate ? +immediate as 0 | 1 : undefined,
+      this.edges.includes(edge) ? edge as ThrottleEdge : undefined
+    );
+  }
+}
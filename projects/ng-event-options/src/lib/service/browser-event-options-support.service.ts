@@ -0,0 +1,41 @@
+import { Injectable } from '@angular/core';
+
+import { NativeEventOption } from '../enum/native-event-option.enum';
+
+import { EventOptionsSupport } from './event-options-support.service';
+
+@Injectable()
+export class BrowserEventOptionsSupport extends EventOptionsSupport {
+
+  protected readonly nativeOptionsSupported: { [O in NativeEventOption]: boolean } = {
+    capture: false,
+    once: false,
+    passive: false
+  };
+
+  constructor() {
+    super();
+    this.detectSupport();
+  }
+
+  supports(option: NativeEventOption): boolean {
+    return this.nativeOptionsSupported[ option ];
+  }
+
+  // a browser supporting an option reads it from the options object
+  protected detectSupport(): void {
+    const supportObj: object = new Object(null);
+    const listener: EventListener = () => void 0;
+
+    Object.keys(NativeEventOption).map(optionKey => NativeEventOption[ optionKey as any ]).forEach(nativeOption =>
+      Object.defineProperty(supportObj, nativeOption, {
+        get: () => {
+          this.nativeOptionsSupported[ nativeOption as NativeEventOption ] = true;
+        }
+      })
+    );
+
+    window.addEventListener('test', listener, supportObj);
+    window.removeEventListener('test', listener, supportObj);
+  }
+}
@@ -1,19 +1,46 @@
-import { NgZone } from '@angular/core';
-import { fakeAsync, TestBed, tick } from '@angular/core/testing';
+import { Component, NgZone } from '@angular/core';
+import { ComponentFixture, fakeAsync, flushMicrotasks, TestBed, tick } from '@angular/core/testing';
 
 import { DomEventOptionsPlugin } from './dom-event-options-plugin.service';
+import { BrowserEventOptionsSupport } from './browser-event-options-support.service';
+import { EventOptionsSupport } from './event-options-support.service';
+import { eventOptionsSupportProvider } from './event-options-support.provider';
+import { EventReplayService } from './event-replay.service';
+import { ServerEventOptionsSupport } from './server-event-options-support.service';
 
+import { ConflictStrategy } from '../enum/conflict-strategy.enum';
 import { ErrorMsg } from '../enum/error-msg.enum';
 import { EventSeparator } from "../enum/event-separator.enum";
 import { GlobalEventTarget } from '../enum/global-event-target.enum';
 import { NativeEventOption } from '../enum/native-event-option.enum';
 import { OperatorSymbol } from '../enum/operator-symbol.enum';
 import { OptionSymbol } from '../enum/option-symbol.enum';
+import { TeardownStrategy } from '../enum/teardown-strategy.enum';
+import { ThrottleEdge } from '../enum/throttle-edge.enum';
+
+import { formatError } from '../helper/format-error';
+
+import { EventDescriptor } from '../interface/event-descriptor.interface';
+import { EventOperator } from '../interface/event-operator.interface';
+import { EventOptionsConfig } from '../interface/event-options-config.interface';
+
+import { NgEventOptionsModule } from '../ng-event-options.module';
+
+import { builtInOperatorProviders } from '../operator/built-in-operator.providers';
+import { MediaQueryEventOperator } from '../operator/media-query-event.operator';
+
+import { EVENT_OPTIONS_CONFIG } from '../token/event-options-config.token';
+import { EVENT_OPTIONS_OPERATORS } from '../token/event-options-operators.token';
 
 let domEventOptionsPlugin: DomEventOptionsPlugin;
 let el: HTMLDivElement;
 let ngZone: NgZone;
 
+@Component({ template: '' })
+class BindingComponent {
+  readonly listener: jasmine.Spy = jasmine.createSpy('listener');
+}
+
 describe('Dom event options plugin', () => {
   const time: number = 50;
   const noop: EventListener = () => void 0;
@@ -27,6 +54,18 @@ describe('Dom event options plugin', () => {
   const addGlobalEvent = (target: GlobalEventTarget, options: string = '*', callback: EventListener = noop): () => void =>
     domEventOptionsPlugin.addGlobalEventListener(target, `click.${options}`, callback);
 
+  // the template is parsed by angular, so the event binding has to be a valid attribute name before it reaches the plugin
+  const createBinding = (template: string): ComponentFixture<BindingComponent> => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({ imports: [ NgEventOptionsModule ], declarations: [ BindingComponent ] });
+    TestBed.overrideTemplate(BindingComponent, template);
+
+    const fixture: ComponentFixture<BindingComponent> = TestBed.createComponent(BindingComponent);
+    fixture.detectChanges();
+
+    return fixture;
+  };
+
   const createOperator = (operator: OperatorSymbol, time?: number, immediate?: 0 | 1): string => {
     const timeStr = time == null ? '' : time.toString();
     const immStr = immediate == null ? '' : immediate.toString();
@@ -35,14 +74,16 @@ describe('Dom event options plugin', () => {
   };
 
   beforeEach(() => {
-    TestBed.configureTestingModule({ providers: [ DomEventOptionsPlugin ] });
+    TestBed.configureTestingModule({
+      providers: [ DomEventOptionsPlugin, EventReplayService, eventOptionsSupportProvider, builtInOperatorProviders ]
+    });
     domEventOptionsPlugin = TestBed.get(DomEventOptionsPlugin);
     ngZone = TestBed.get(NgZone);
   });
 
   it('should have tested for browser supported', () => {
     expect(domEventOptionsPlugin).toBeDefined();
-    expect(domEventOptionsPlugin[ 'nativeEventObjectSupported' ]).toBeDefined();
+    expect(domEventOptionsPlugin[ 'support' ]).toEqual(jasmine.any(BrowserEventOptionsSupport));
   });
 
   it('removeEventListener should be called on the element', () => {
@@ -65,6 +106,18 @@ describe('Dom event options plugin', () => {
     expect(Object.keys(domEventOptionsPlugin[ 'nativeOptionsObjects' ]).length).toEqual(2);
   });
 
+  it('should parse an event binding only once', () => {
+    el = document.createElement('div');
+
+    addEvent(OptionSymbol.Passive);
+    const descriptor: EventDescriptor = domEventOptionsPlugin[ 'descriptors' ][ `click.${OptionSymbol.Passive}` ];
+    addEvent(OptionSymbol.Passive);
+    domEventOptionsPlugin.supports(`click.${OptionSymbol.Passive}`);
+
+    expect(Object.keys(domEventOptionsPlugin[ 'descriptors' ]).length).toEqual(1);
+    expect(domEventOptionsPlugin[ 'descriptors' ][ `click.${OptionSymbol.Passive}` ]).toBe(descriptor);
+  });
+
   describe('AddEventListener', () => {
     it('should return a function', () => {
       el = document.createElement('div');
@@ -94,8 +147,7 @@ describe('Dom event options plugin', () => {
 
     it('addGlobalEventListener throw on unknown element name', () => {
       const element: string = 'html';
-      const replace: string[] = [ element, `click.${OptionSymbol.Force}` ];
-      const error: string = ErrorMsg.UnsupportedEventTarget.replace(/\|~/g, () => replace.shift() as string);
+      const error: string = formatError(ErrorMsg.UnsupportedEventTarget, element, `click.${OptionSymbol.Force}`);
 
       expect(() => addGlobalEvent(element as any, OptionSymbol.Force)).toThrowError(error);
     });
@@ -117,6 +169,28 @@ describe('Dom event options plugin', () => {
       expect(domEventOptionsPlugin.supports('foo.pc')).toEqual(true);
       expect(domEventOptionsPlugin.supports(' click. pc ')).toEqual(true);
     });
+
+    it('should support key events with a key and options', () => {
+      expect(domEventOptionsPlugin.supports('keydown.enter')).toEqual(false);
+      expect(domEventOptionsPlugin.supports('keydown.shift.c')).toEqual(false);
+      expect(domEventOptionsPlugin.supports('keydown.control.shift.s')).toEqual(false);
+      expect(domEventOptionsPlugin.supports('keydown.foo.bar.pn')).toEqual(false);
+      expect(domEventOptionsPlugin.supports('keydown.esc')).toEqual(false);
+      expect(domEventOptionsPlugin.supports('keyup.esc')).toEqual(false);
+      expect(domEventOptionsPlugin.supports('keydown.end')).toEqual(false);
+      expect(domEventOptionsPlugin.supports('keydown.shift.esc')).toEqual(false);
+      expect(domEventOptionsPlugin.supports('keyup.control.end')).toEqual(false);
+      expect(domEventOptionsPlugin.supports('click.enter.pn')).toEqual(false);
+      expect(domEventOptionsPlugin.supports('keydown.enter.p')).toEqual(true);
+      expect(domEventOptionsPlugin.supports('keydown.enter.pn')).toEqual(true);
+      expect(domEventOptionsPlugin.supports('keyup.shift.a.n*')).toEqual(true);
+      expect(domEventOptionsPlugin.supports('keydown.shift.pn*')).toEqual(true);
+      expect(domEventOptionsPlugin.supports('keydown.shift.pn')).toEqual(true);
+      expect(domEventOptionsPlugin.supports('keydown.pn')).toEqual(true);
+      expect(domEventOptionsPlugin.supports('keyup.np')).toEqual(true);
+      expect(domEventOptionsPlugin.supports('keydown.esc*')).toEqual(true);
+      expect(domEventOptionsPlugin.supports('keydown.control.s.d|db[50]')).toEqual(true);
+    });
   });
 
   describe('Check `Once` option', () => {
@@ -145,11 +219,12 @@ describe('Dom event options plugin', () => {
     });
 
     it('should call the callback only once even when `Once` is not supported', () => {
-      const onceSupported: boolean = domEventOptionsPlugin[ 'nativeOptionsSupported' ][ NativeEventOption.Once ];
-      domEventOptionsPlugin[ 'nativeOptionsSupported' ][ NativeEventOption.Once ] = false;
+      const support: EventOptionsSupport = TestBed.get(EventOptionsSupport);
+      const supports: (option: NativeEventOption) => boolean = support.supports.bind(support);
+      spyOn(support, 'supports').and.callFake((option: NativeEventOption) => option !== NativeEventOption.Once && supports(option));
+
       performClickEvent(OptionSymbol.Once);
       expect(listener.listener).toHaveBeenCalledTimes(1);
-      domEventOptionsPlugin[ 'nativeOptionsSupported' ][ NativeEventOption.Once ] = onceSupported;
     });
   });
 
@@ -187,6 +262,39 @@ describe('Dom event options plugin', () => {
     });
   });
 
+  describe('Check `Coalesce` option', () => {
+    let frames: FrameRequestCallback[];
+    let listener: jasmine.Spy;
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      frames = [];
+      listener = jasmine.createSpy('listener').and.callFake(() => NgZone.isInAngularZone());
+      spyOn(window, 'requestAnimationFrame').and.callFake((frame: FrameRequestCallback) => frames.push(frame));
+    });
+
+    it('should call the listener outside the zone and enter the zone once per animation frame', () => {
+      const sibling: HTMLDivElement = document.createElement('div');
+      addEvent(OptionSymbol.Coalesce, el, listener);
+      addEvent(OptionSymbol.Coalesce, sibling, listener);
+      spyOn<NgZone>(ngZone, 'run').and.callThrough();
+
+      el.click();
+      el.click();
+      sibling.click();
+
+      expect(listener.calls.all().map(call => call.returnValue)).toEqual([ false, false, false ]);
+      expect(ngZone.run).toHaveBeenCalledTimes(0);
+      expect(frames.length).toEqual(1);
+
+      frames.splice(0).forEach(frame => frame(0));
+      expect(ngZone.run).toHaveBeenCalledTimes(1);
+
+      el.click();
+      expect(frames.length).toEqual(1);
+    });
+  });
+
   describe('Check `PreventDefault` option', () => {
     it('should prevent default behaviour when the `PreventDefault` option is used', async () => {
       el = document.createElement('div');
@@ -250,6 +358,267 @@ describe('Dom event options plugin', () => {
     });
   });
 
+  describe('Check `Exact` option', () => {
+    let child: HTMLDivElement;
+    let listener: jasmine.Spy;
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      child = document.createElement('div');
+      el.appendChild(child);
+      listener = jasmine.createSpy('listener');
+    });
+
+    it('should only call the listener when the target is the element itself', () => {
+      addEvent(OptionSymbol.Exact, el, listener);
+
+      child.click();
+      expect(listener).toHaveBeenCalledTimes(0);
+
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only stop and prevent events dispatched on the element itself', () => {
+      const parentListener: jasmine.Spy = jasmine.createSpy('parentListener');
+      const parent: HTMLDivElement = document.createElement('div');
+      parent.appendChild(el);
+
+      addEvent(OptionSymbol.Force, parent, parentListener);
+      addEvent(OptionSymbol.Exact + OptionSymbol.Stop + OptionSymbol.PreventDefault, el, listener);
+
+      const event: MouseEvent = new MouseEvent('click', { bubbles: true, cancelable: true });
+      child.dispatchEvent(event);
+
+      expect(parentListener).toHaveBeenCalledTimes(1);
+      expect(event.defaultPrevented).toEqual(false);
+
+      el.click();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(parentListener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only be removed by the `Once` option after an event on the element itself', () => {
+      addEvent(OptionSymbol.Exact + OptionSymbol.Once, el, listener);
+
+      child.click();
+      el.click();
+      el.click();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Check `Outside` option', () => {
+    let child: HTMLDivElement;
+    let sibling: HTMLDivElement;
+    let listener: jasmine.Spy;
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      child = document.createElement('div');
+      sibling = document.createElement('div');
+      el.appendChild(child);
+      document.body.appendChild(el);
+      document.body.appendChild(sibling);
+      listener = jasmine.createSpy('listener');
+    });
+
+    afterEach(() => {
+      document.body.removeChild(el);
+      document.body.removeChild(sibling);
+    });
+
+    it('should only call the listener for events outside of the element', () => {
+      addEvent(OptionSymbol.Outside, el, listener);
+
+      el.click();
+      child.click();
+      expect(listener).toHaveBeenCalledTimes(0);
+
+      sibling.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.calls.mostRecent().args[ 0 ].target).toBe(sibling);
+    });
+
+    it('should not call the listener for the event which is dispatching while the listener is added', () => {
+      const open: jasmine.Spy = jasmine.createSpy('open').and.callFake(() => addEvent(OptionSymbol.Outside, el, listener));
+      sibling.addEventListener('click', open);
+
+      sibling.click();
+      expect(open).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledTimes(0);
+
+      document.body.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+      sibling.removeEventListener('click', open);
+    });
+
+    it('should share a single document listener and remove it with the last binding', () => {
+      spyOn(document, 'addEventListener').and.callThrough();
+      spyOn(document, 'removeEventListener').and.callThrough();
+
+      const removeEl: () => void = addEvent(OptionSymbol.Outside, el, listener);
+      const removeSibling: () => void = addEvent(OptionSymbol.Outside, sibling, listener);
+
+      expect(document.addEventListener).toHaveBeenCalledTimes(1);
+
+      child.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      removeEl();
+      expect(document.removeEventListener).toHaveBeenCalledTimes(0);
+
+      removeSibling();
+      expect(document.removeEventListener).toHaveBeenCalledTimes(1);
+
+      sibling.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only be removed by the `Once` option after an event outside of the element', () => {
+      addEvent(OptionSymbol.Outside + OptionSymbol.Once, el, listener);
+      addEvent(OptionSymbol.Outside, child, listener);
+
+      child.click();
+      expect(listener).toHaveBeenCalledTimes(0);
+
+      sibling.click();
+      sibling.click();
+      expect(listener).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('Check `Visible` option', () => {
+    let listener: jasmine.Spy;
+    let visibilityState: VisibilityState;
+
+    const setVisibility = (state: VisibilityState): void => {
+      visibilityState = state;
+      document.dispatchEvent(new Event('visibilitychange'));
+    };
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      listener = jasmine.createSpy('listener');
+      visibilityState = 'visible';
+      spyOnProperty(document, 'visibilityState').and.callFake(() => visibilityState);
+    });
+
+    it('should only call the listener while the page is visible', () => {
+      addEvent(OptionSymbol.Visible, el, listener);
+
+      el.click();
+      setVisibility('hidden');
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      setVisibility('visible');
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not call a `Once` listener again after the page is visible again', () => {
+      spyOn(document, 'removeEventListener').and.callThrough();
+      addEvent(OptionSymbol.Visible + OptionSymbol.Once, el, listener);
+
+      el.click();
+      expect(document.removeEventListener).toHaveBeenCalledWith('visibilitychange', jasmine.any(Function));
+
+      setVisibility('hidden');
+      setVisibility('visible');
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop listening to the visibility when the listener is removed', () => {
+      spyOn(document, 'removeEventListener').and.callThrough();
+      addEvent(OptionSymbol.Visible, el, listener)();
+
+      expect(document.removeEventListener).toHaveBeenCalledWith('visibilitychange', jasmine.any(Function));
+    });
+  });
+
+  describe('Check `InView` option', () => {
+    const nativeIntersectionObserver: typeof IntersectionObserver = (window as any).IntersectionObserver;
+    let listener: jasmine.Spy;
+    let observers: FakeIntersectionObserver[];
+
+    class FakeIntersectionObserver {
+      readonly observe: jasmine.Spy = jasmine.createSpy('observe');
+      readonly unobserve: jasmine.Spy = jasmine.createSpy('unobserve');
+      readonly disconnect: jasmine.Spy = jasmine.createSpy('disconnect');
+
+      constructor(readonly callback: (entries: Partial<IntersectionObserverEntry>[]) => void) {
+        observers.push(this);
+      }
+    }
+
+    const intersect = (target: Element, isIntersecting: boolean): void => observers[ 0 ].callback([ { target, isIntersecting } ]);
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      listener = jasmine.createSpy('listener');
+      observers = [];
+      (window as any).IntersectionObserver = FakeIntersectionObserver;
+    });
+
+    afterEach(() => (window as any).IntersectionObserver = nativeIntersectionObserver);
+
+    it('should only call the listener while the element is in the viewport', () => {
+      addEvent(OptionSymbol.InView, el, listener);
+
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(0);
+
+      intersect(el, true);
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      intersect(el, false);
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not call a `Once` listener again after the element is in the viewport again', () => {
+      addEvent(OptionSymbol.InView + OptionSymbol.Once, el, listener);
+
+      intersect(el, true);
+      el.click();
+      expect(observers[ 0 ].unobserve).toHaveBeenCalledWith(el);
+
+      intersect(el, false);
+      intersect(el, true);
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share a single observer and disconnect it when the last listener is removed', fakeAsync(() => {
+      const sibling: HTMLDivElement = document.createElement('div');
+
+      const removeEl: () => void = addEvent(OptionSymbol.InView, el, listener);
+      intersect(el, true);
+      const removeElAgain: () => void = addEvent(OptionSymbol.InView + OptionSymbol.NoZone, el, listener);
+      const removeSibling: () => void = addEvent(OptionSymbol.InView, sibling, listener);
+      flushMicrotasks();
+
+      expect(observers.length).toEqual(1);
+      expect(observers[ 0 ].observe).toHaveBeenCalledTimes(2);
+
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(2);
+
+      removeEl();
+      removeElAgain();
+      expect(observers[ 0 ].unobserve).toHaveBeenCalledWith(el);
+      expect(observers[ 0 ].disconnect).toHaveBeenCalledTimes(0);
+
+      removeSibling();
+      expect(observers[ 0 ].disconnect).toHaveBeenCalledTimes(1);
+    }));
+  });
+
   describe('Check `Capture` option', () => {
     let parent: HTMLDivElement;
     let childVisited: boolean;
@@ -276,8 +645,7 @@ describe('Dom event options plugin', () => {
     });
 
     it('should create an event triggered in the capture phase when there is no native event object support', async () => {
-      const nativeSupported: boolean = domEventOptionsPlugin[ 'nativeEventObjectSupported' ] as boolean;
-      domEventOptionsPlugin[ 'nativeEventObjectSupported' ] = false;
+      spyOn(TestBed.get(EventOptionsSupport), 'supports').and.returnValue(false);
 
       const result: boolean = await new Promise<boolean>(resolve => {
         addEvent(OptionSymbol.Capture, parent, () => inCapture = !childVisited);
@@ -287,7 +655,6 @@ describe('Dom event options plugin', () => {
       });
 
       await expect(result).toEqual(true);
-      domEventOptionsPlugin[ 'nativeEventObjectSupported' ] = nativeSupported;
     });
   });
 
@@ -307,10 +674,7 @@ describe('Dom event options plugin', () => {
     });
 
     it('should not create a passive event when passive is not supported', async () => {
-      const nativeEventObjectSupported: boolean = domEventOptionsPlugin[ 'nativeEventObjectSupported' ] as boolean;
-      const passiveSupported: boolean = domEventOptionsPlugin[ 'nativeOptionsSupported' ][ NativeEventOption.Passive ];
-      domEventOptionsPlugin[ 'nativeEventObjectSupported' ] = false;
-      domEventOptionsPlugin[ 'nativeOptionsSupported' ][ NativeEventOption.Passive ] = false;
+      spyOn(TestBed.get(EventOptionsSupport), 'supports').and.returnValue(false);
 
       el = document.createElement('div');
 
@@ -323,8 +687,6 @@ describe('Dom event options plugin', () => {
       });
 
       await expect(result).toEqual(true);
-      domEventOptionsPlugin[ 'nativeEventObjectSupported' ] = nativeEventObjectSupported;
-      domEventOptionsPlugin[ 'nativeOptionsSupported' ][ NativeEventOption.Passive ] = passiveSupported;
     });
   });
 
@@ -362,6 +724,63 @@ describe('Dom event options plugin', () => {
     });
   });
 
+  describe('Check key events', () => {
+    let listener: { listener: EventListener };
+
+    const addKeyEvent = (key: string, options: string = OptionSymbol.Force): () => void =>
+      ngZone.run(() => domEventOptionsPlugin.addEventListener(el, `keydown.${key}.${options}`, listener.listener));
+
+    const dispatchKey = (key: string, init: KeyboardEventInit = {}): void => {
+      el.dispatchEvent(new KeyboardEvent('keydown', { ...init, key }));
+    };
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      listener = { listener: noop };
+      spyOn(listener, 'listener');
+    });
+
+    it('should only call the listener for the bound key', () => {
+      addKeyEvent('enter');
+      dispatchKey('a');
+      dispatchKey('Enter');
+      expect(listener.listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only call the listener when the modifiers match', () => {
+      addKeyEvent('control.shift.s');
+      dispatchKey('s');
+      dispatchKey('S', { shiftKey: true });
+      dispatchKey('S', { shiftKey: true, ctrlKey: true, altKey: true });
+      dispatchKey('S', { shiftKey: true, ctrlKey: true });
+      expect(listener.listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should normalize key names', () => {
+      addKeyEvent('esc');
+      addKeyEvent('space');
+      dispatchKey('Escape');
+      dispatchKey('Esc');
+      dispatchKey(' ');
+      expect(listener.listener).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not prevent default for a non matching key', () => {
+      addKeyEvent('enter', OptionSymbol.PreventDefault);
+      const event: KeyboardEvent = new KeyboardEvent('keydown', { key: 'a', cancelable: true });
+      el.dispatchEvent(event);
+      expect(event.defaultPrevented).toEqual(false);
+    });
+
+    it('should only remove a `Once` listener after the bound key is pressed', () => {
+      addKeyEvent('enter', OptionSymbol.Once);
+      dispatchKey('a');
+      dispatchKey('Enter');
+      dispatchKey('Enter');
+      expect(listener.listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Check `Throttle` operator', () => {
     let listener: { listener: EventListener };
     let callCount: number = 0;
@@ -410,6 +829,47 @@ describe('Dom event options plugin', () => {
       addEvent(createOperator(OperatorSymbol.Throttle, time), el, listener.listener);
       checkThrottle(0);
     }));
+
+    it('should throttle on the leading and trailing edge with the latest event', fakeAsync(() => {
+      const spy: jasmine.Spy = jasmine.createSpy('listener');
+      const events: MouseEvent[] = [ new MouseEvent('click'), new MouseEvent('click'), new MouseEvent('click') ];
+      addEvent(`${OptionSymbol.Force}${EventSeparator.Block}${OperatorSymbol.Throttle}[${time},,${ThrottleEdge.Both}]`, el, spy);
+
+      events.forEach(event => el.dispatchEvent(event));
+      expect(spy.calls.allArgs()).toEqual([ [ events[ 0 ] ] ]);
+
+      tick(time);
+      expect(spy.calls.allArgs()).toEqual([ [ events[ 0 ] ], [ events[ 2 ] ] ]);
+
+      el.click();
+      expect(spy).toHaveBeenCalledTimes(2);
+
+      tick(time);
+      expect(spy).toHaveBeenCalledTimes(3);
+
+      tick(time);
+      expect(spy).toHaveBeenCalledTimes(3);
+    }));
+
+    it('should call the trailing edge with the latest event', fakeAsync(() => {
+      const spy: jasmine.Spy = jasmine.createSpy('listener');
+      const events: MouseEvent[] = [ new MouseEvent('click'), new MouseEvent('click') ];
+      addEvent(`${OptionSymbol.Force}${EventSeparator.Block}${OperatorSymbol.Throttle}[${time},,${ThrottleEdge.Trailing}]`, el, spy);
+
+      events.forEach(event => el.dispatchEvent(event));
+      tick(time);
+
+      expect(spy.calls.allArgs()).toEqual([ [ events[ 1 ] ] ]);
+    }));
+
+    it('should cancel the pending invocation when the listener is removed', fakeAsync(() => {
+      const remove: () => void = addEvent(createOperator(OperatorSymbol.Throttle, time), el, listener.listener);
+      el.click();
+      remove();
+      tick(time);
+
+      expect(callCount).toEqual(0);
+    }));
   });
 
   describe('Check `Debounce` operator', () => {
@@ -455,5 +915,899 @@ describe('Dom event options plugin', () => {
       addEvent(createOperator(OperatorSymbol.Debounce, time), el, listener.listener);
       checkDebounce(0);
     }));
+
+    it('should call the listener at least once per max wait', fakeAsync(() => {
+      addEvent(`${OptionSymbol.Force}${EventSeparator.Block}${OperatorSymbol.Debounce}[${time},0,${time * 2}]`, el, listener.listener);
+
+      for (let i = 0; i < 10; i++) {
+        el.click();
+        tick(time / 2);
+      }
+
+      expect(listener.listener).toHaveBeenCalledTimes(2);
+
+      tick(time);
+      expect(listener.listener).toHaveBeenCalledTimes(3);
+    }));
+
+    it('should call the listener immediately again after max wait', fakeAsync(() => {
+      addEvent(`${OptionSymbol.Force}${EventSeparator.Block}${OperatorSymbol.Debounce}[${time},1,${time * 2}]`, el, listener.listener);
+
+      for (let i = 0; i < 10; i++) {
+        el.click();
+        tick(time / 2);
+      }
+
+      expect(listener.listener).toHaveBeenCalledTimes(3);
+
+      tick(time);
+      expect(listener.listener).toHaveBeenCalledTimes(3);
+    }));
+
+    it('should cancel the max wait when the listener is removed', fakeAsync(() => {
+      const remove: () => void = addEvent(
+        `${OptionSymbol.Force}${EventSeparator.Block}${OperatorSymbol.Debounce}[${time},0,${time * 2}]`, el, listener.listener
+      );
+
+      el.click();
+      tick(time / 2);
+      el.click();
+      remove();
+      tick(time * 2);
+
+      expect(listener.listener).toHaveBeenCalledTimes(0);
+    }));
+
+    it('should cancel the pending invocation when the listener is removed', fakeAsync(() => {
+      const remove: () => void = addEvent(createOperator(OperatorSymbol.Debounce, time), el, listener.listener);
+      el.click();
+      remove();
+      tick(time);
+
+      expect(listener.listener).toHaveBeenCalledTimes(0);
+    }));
+  });
+
+  describe('Check operator pipeline', () => {
+    const throttleDebounce: string = `${createOperator(OperatorSymbol.Throttle, time, 1)}${EventSeparator.Operator}` +
+      `${OperatorSymbol.Debounce}[${time / 2}]`;
+    let listener: jasmine.Spy;
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      listener = jasmine.createSpy('listener');
+    });
+
+    it('should apply every operator in the order of the event binding', fakeAsync(() => {
+      addEvent(throttleDebounce, el, listener);
+
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(0);
+
+      tick(time / 2);
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      el.click();
+      tick(time / 2);
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      el.click();
+      tick(time / 2);
+      expect(listener).toHaveBeenCalledTimes(2);
+    }));
+
+    it('should cancel every operator when the listener is removed', fakeAsync(() => {
+      const remove: () => void = addEvent(throttleDebounce, el, listener);
+
+      el.click();
+      remove();
+      tick(time);
+
+      expect(listener).toHaveBeenCalledTimes(0);
+    }));
+  });
+
+  describe('Check `AnimationFrame` operator', () => {
+    let listener: jasmine.Spy;
+    let frames: FrameRequestCallback[];
+
+    const runFrames = (): void => frames.splice(0).forEach(frame => frame(0));
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      listener = jasmine.createSpy('listener');
+      frames = [];
+      spyOn(window, 'requestAnimationFrame').and.callFake((frame: FrameRequestCallback) => frames.push(frame));
+      spyOn(window, 'cancelAnimationFrame').and.callFake((id: number) => delete frames[ id - 1 ]);
+    });
+
+    it('should call the listener once per animation frame with the latest event', () => {
+      addEvent(`${OptionSymbol.Force}${EventSeparator.Block}${OperatorSymbol.AnimationFrame}`, el, listener);
+
+      const events: MouseEvent[] = [ new MouseEvent('click'), new MouseEvent('click'), new MouseEvent('click') ];
+      events.forEach(event => el.dispatchEvent(event));
+
+      expect(listener).toHaveBeenCalledTimes(0);
+      runFrames();
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(events[ 2 ]);
+
+      el.click();
+      runFrames();
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cancel the pending animation frame when the listener is removed', () => {
+      const remove: () => void = addEvent(`${OptionSymbol.Force}${EventSeparator.Block}${OperatorSymbol.AnimationFrame}`, el, listener);
+
+      el.click();
+      remove();
+      runFrames();
+
+      expect(window.cancelAnimationFrame).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledTimes(0);
+    });
+  });
+
+  describe('Check observer events', () => {
+    const observerTypes: string[] = [ 'ResizeObserver', 'IntersectionObserver' ];
+    const nativeObservers: { [type: string]: any } = {};
+    let listener: jasmine.Spy;
+    let observers: { [type: string]: FakeObserver[] };
+
+    class FakeObserver {
+      readonly observe: jasmine.Spy = jasmine.createSpy('observe');
+      readonly unobserve: jasmine.Spy = jasmine.createSpy('unobserve');
+      readonly disconnect: jasmine.Spy = jasmine.createSpy('disconnect');
+
+      constructor(readonly callback: (entries: object[]) => void) {
+      }
+    }
+
+    const notify = (type: string, entry: object): void => observers[ type ][ 0 ].callback([ { target: el, ...entry } ]);
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      listener = jasmine.createSpy('listener');
+      observers = {};
+
+      observerTypes.forEach(type => {
+        nativeObservers[ type ] = (window as any)[ type ];
+        observers[ type ] = [];
+        (window as any)[ type ] = class extends FakeObserver {
+          constructor(callback: (entries: object[]) => void) {
+            super(callback);
+            observers[ type ].push(this);
+          }
+        };
+      });
+    });
+
+    afterEach(() => observerTypes.forEach(type => (window as any)[ type ] = nativeObservers[ type ]));
+
+    it('should leave observer events without options to angular', () => {
+      expect(domEventOptionsPlugin.supports('resize')).toBe(false);
+      expect(domEventOptionsPlugin.supports('intersect')).toBe(false);
+      expect(domEventOptionsPlugin.supports(`resize.${OptionSymbol.Force}`)).toBe(true);
+    });
+
+    it('should call the listener with the resize entry as detail', () => {
+      domEventOptionsPlugin.addEventListener(el, `resize.${OptionSymbol.Force}`, listener);
+
+      expect(observers.ResizeObserver[ 0 ].observe).toHaveBeenCalledWith(el);
+
+      notify('ResizeObserver', { contentRect: { width: 100 } });
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.calls.mostRecent().args[ 0 ].type).toEqual('resize');
+      expect(listener.calls.mostRecent().args[ 0 ].detail.contentRect.width).toEqual(100);
+    });
+
+    it('should honour the once option and the timing operators', fakeAsync(() => {
+      domEventOptionsPlugin.addEventListener(el, `resize.${OptionSymbol.Once}`, listener);
+      const debounced = `resize.${OptionSymbol.Force}${EventSeparator.Block}${OperatorSymbol.Debounce}[${time}]`;
+      domEventOptionsPlugin.addEventListener(el, debounced, listener);
+
+      notify('ResizeObserver', {});
+      notify('ResizeObserver', {});
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      tick(time);
+      expect(listener).toHaveBeenCalledTimes(2);
+    }));
+
+    it('should wait for the element to intersect before calling the intersect listener', () => {
+      domEventOptionsPlugin.addEventListener(el, `intersect.${OptionSymbol.Once}`, listener);
+
+      notify('IntersectionObserver', { isIntersecting: false });
+      expect(listener).toHaveBeenCalledTimes(0);
+
+      notify('IntersectionObserver', { isIntersecting: true });
+      notify('IntersectionObserver', { isIntersecting: false });
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.calls.mostRecent().args[ 0 ].detail.isIntersecting).toBe(true);
+      expect(observers.IntersectionObserver[ 0 ].disconnect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should deliver the last entry of an already observed element after the listener is added', fakeAsync(() => {
+      const once: jasmine.Spy = jasmine.createSpy('once');
+      const take: jasmine.Spy = jasmine.createSpy('take');
+      domEventOptionsPlugin.addEventListener(el, `intersect.${OptionSymbol.Force}`, listener);
+      domEventOptionsPlugin.addEventListener(el, `resize.${OptionSymbol.Force}`, listener);
+      notify('IntersectionObserver', { isIntersecting: true });
+      notify('ResizeObserver', {});
+
+      expect(() => domEventOptionsPlugin.addEventListener(el, `intersect.${OptionSymbol.Once}`, once)).not.toThrow();
+      expect(() => domEventOptionsPlugin.addEventListener(el, `resize.${OptionSymbol.Force}|${OperatorSymbol.Take}[1]`, take))
+        .not.toThrow();
+      expect(once).toHaveBeenCalledTimes(0);
+      expect(take).toHaveBeenCalledTimes(0);
+
+      flushMicrotasks();
+      notify('IntersectionObserver', { isIntersecting: true });
+      notify('ResizeObserver', {});
+
+      expect(once).toHaveBeenCalledTimes(1);
+      expect(take).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledTimes(4);
+    }));
+
+    it('should listen to the native resize event of the window', () => {
+      spyOn(window, 'addEventListener');
+      domEventOptionsPlugin.addGlobalEventListener(GlobalEventTarget.Window, `resize.${OptionSymbol.NoZone}`, listener);
+
+      expect(window.addEventListener).toHaveBeenCalledWith('resize', jasmine.any(Function), jasmine.anything());
+      expect(observers.ResizeObserver.length).toEqual(0);
+    });
+  });
+
+  describe('Check `Delegate` operator', () => {
+    let listener: jasmine.Spy;
+    let row: HTMLDivElement;
+    let action: HTMLButtonElement;
+
+    const addDelegate = (selector: string): () => void =>
+      addEvent(`${OptionSymbol.Force}${EventSeparator.Block}${OperatorSymbol.Delegate}[${selector}]`, el, listener);
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      el.className = 'row-action';
+      row = document.createElement('div');
+      row.className = 'row';
+      action = document.createElement('button');
+      action.className = 'row-action';
+      action.appendChild(document.createElement('span'));
+      row.appendChild(action);
+      el.appendChild(row);
+      listener = jasmine.createSpy('listener');
+    });
+
+    it('should only call the listener for descendants matching the selector', () => {
+      addDelegate('.row-action');
+
+      el.click();
+      row.click();
+      expect(listener).toHaveBeenCalledTimes(0);
+
+      (action.firstChild as HTMLElement).click();
+      action.click();
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should expose the closest matching element as the delegate target', () => {
+      addDelegate('.row, .row-action');
+
+      (action.firstChild as HTMLElement).click();
+      expect(listener.calls.mostRecent().args[ 0 ].delegateTarget).toBe(action);
+
+      row.click();
+      expect(listener.calls.mostRecent().args[ 0 ].delegateTarget).toBe(row);
+    });
+
+    it('should add a single event listener to the host element', () => {
+      spyOn(el, 'addEventListener').and.callThrough();
+      addDelegate('button[type], .row-action');
+
+      expect(el.addEventListener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not stop or prevent the events of descendants not matching the selector', () => {
+      const parentClick: jasmine.Spy = jasmine.createSpy('parentClick');
+      const parent: HTMLDivElement = document.createElement('div');
+      parent.appendChild(el);
+      parent.addEventListener('click', parentClick);
+      addEvent(`${OptionSymbol.Stop}${OptionSymbol.PreventDefault}${EventSeparator.Block}${OperatorSymbol.Delegate}[.row]`, el, listener);
+
+      const event: MouseEvent = new MouseEvent('click', { bubbles: true, cancelable: true });
+      el.appendChild(document.createElement('span')).dispatchEvent(event);
+
+      expect(listener).toHaveBeenCalledTimes(0);
+      expect(event.defaultPrevented).toEqual(false);
+      expect(parentClick).toHaveBeenCalledTimes(1);
+
+      const matchingEvent: MouseEvent = new MouseEvent('click', { bubbles: true, cancelable: true });
+      action.dispatchEvent(matchingEvent);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(matchingEvent.defaultPrevented).toEqual(true);
+      expect(parentClick).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only remove the listener with the `Once` option after a matching event', () => {
+      addEvent(`${OptionSymbol.Once}${EventSeparator.Block}${OperatorSymbol.Delegate}[.row-action]`, el, listener);
+
+      row.click();
+      action.click();
+      action.click();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Check `Hold` operator', () => {
+    let listener: jasmine.Spy;
+
+    const pointer = (type: string, clientX: number = 0, pointerId: number = 1): PointerEvent =>
+      new PointerEvent(type, { pointerId, clientX, clientY: 0, bubbles: true });
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      document.body.appendChild(el);
+      listener = jasmine.createSpy('listener');
+    });
+
+    afterEach(() => document.body.removeChild(el));
+
+    const addHold = (params: string = `${time}${EventSeparator.Operator}10`): () => void => {
+      const eventName = `pointerdown.${OptionSymbol.Force}${EventSeparator.Block}${OperatorSymbol.Hold}[${params}]`;
+
+      return ngZone.run(() => domEventOptionsPlugin.addEventListener(el, eventName, listener));
+    };
+
+    it('should call the listener when the pointer is held down for the given time', fakeAsync(() => {
+      addHold();
+
+      const event: PointerEvent = pointer('pointerdown');
+      el.dispatchEvent(event);
+      tick(time - 1);
+      expect(listener).toHaveBeenCalledTimes(0);
+
+      tick(1);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(event);
+    }));
+
+    it('should cancel the hold when the pointer is released', fakeAsync(() => {
+      addHold();
+
+      el.dispatchEvent(pointer('pointerdown'));
+      tick(time / 2);
+      document.body.dispatchEvent(pointer('pointerup'));
+      tick(time);
+
+      el.dispatchEvent(pointer('pointerdown'));
+      el.dispatchEvent(pointer('pointercancel'));
+      tick(time);
+
+      expect(listener).toHaveBeenCalledTimes(0);
+    }));
+
+    it('should only cancel the hold when the pointer moves beyond the tolerance', fakeAsync(() => {
+      addHold();
+
+      el.dispatchEvent(pointer('pointerdown'));
+      el.dispatchEvent(pointer('pointermove', 10));
+      el.dispatchEvent(pointer('pointerup', 20, 2));
+      tick(time);
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      el.dispatchEvent(pointer('pointerdown'));
+      el.dispatchEvent(pointer('pointermove', 11));
+      tick(time);
+      expect(listener).toHaveBeenCalledTimes(1);
+    }));
+
+    it('should use the configured default time and cancel the hold when the listener is removed', fakeAsync(() => {
+      const remove: () => void = addHold('');
+
+      el.dispatchEvent(pointer('pointerdown'));
+      tick(499);
+      expect(listener).toHaveBeenCalledTimes(0);
+      tick(1);
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      el.dispatchEvent(pointer('pointerdown'));
+      remove();
+      tick(500);
+      expect(listener).toHaveBeenCalledTimes(1);
+    }));
+  });
+
+  describe('Check `Count` operator', () => {
+    let listener: jasmine.Spy;
+
+    const addCount = (params: string): () => void =>
+      addEvent(`${OptionSymbol.Force}${EventSeparator.Block}${OperatorSymbol.Count}[${params}]`, el, listener);
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      listener = jasmine.createSpy('listener');
+    });
+
+    it('should call the listener after the given number of events within the window', fakeAsync(() => {
+      addCount(`3${EventSeparator.Operator}${time}`);
+
+      el.click();
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(0);
+
+      const event: MouseEvent = new MouseEvent('click');
+      el.dispatchEvent(event);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(event);
+
+      el.click();
+      el.click();
+      tick(time);
+      expect(listener).toHaveBeenCalledTimes(1);
+    }));
+
+    it('should reset the count when the window expires', fakeAsync(() => {
+      addCount(`2${EventSeparator.Operator}${time}`);
+
+      el.click();
+      tick(time);
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(0);
+
+      tick(time - 1);
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+    }));
+
+    it('should default to a double click within the configured window', fakeAsync(() => {
+      const remove: () => void = addCount('');
+
+      el.click();
+      tick(499);
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      el.click();
+      remove();
+      tick(500);
+    }));
+  });
+
+  describe('Check `Take` and `Skip` operators', () => {
+    let listener: jasmine.Spy;
+
+    const addOperators = (operators: string): () => void =>
+      addEvent(`${OptionSymbol.Force}${EventSeparator.Block}${operators}`, el, listener);
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      listener = jasmine.createSpy('listener');
+    });
+
+    it('should remove the event listener after the taken events', () => {
+      spyOn(el, 'removeEventListener').and.callThrough();
+      addOperators(`${OperatorSymbol.Take}[2]`);
+
+      el.click();
+      expect(el.removeEventListener).toHaveBeenCalledTimes(0);
+
+      el.click();
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(el.removeEventListener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore the skipped events', () => {
+      addOperators(`${OperatorSymbol.Skip}[2]`);
+
+      el.click();
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(0);
+
+      el.click();
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should count the events at the position in the pipeline', () => {
+      addOperators(`${OperatorSymbol.Skip}${EventSeparator.Operator}${OperatorSymbol.Take}`);
+
+      el.click();
+      el.click();
+      el.click();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep pending invocations of the next operators when the listener is removed by `Take`', fakeAsync(() => {
+      addOperators(`${OperatorSymbol.Take}[2]${EventSeparator.Operator}${OperatorSymbol.Debounce}[${time}]`);
+
+      el.click();
+      el.click();
+      el.click();
+      tick(time);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    }));
+  });
+
+  describe('Check `Filter` operator', () => {
+    let listener: jasmine.Spy;
+
+    const addFilter = (conditions: string, options: string = OptionSymbol.Force): () => void =>
+      addEvent(`${options}${EventSeparator.Block}${OperatorSymbol.Filter}[${conditions}]`, el, listener);
+
+    const click = (init: MouseEventInit): MouseEvent => {
+      const event: MouseEvent = new MouseEvent('click', { cancelable: true, ...init });
+      el.dispatchEvent(event);
+
+      return event;
+    };
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      listener = jasmine.createSpy('listener');
+    });
+
+    it('should only call the listener for events matching every condition', () => {
+      addFilter('button~0, shiftKey');
+
+      click({ button: 0 });
+      click({ button: 1, shiftKey: true });
+      expect(listener).toHaveBeenCalledTimes(0);
+
+      click({ button: 0, shiftKey: true });
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should support negated conditions and nested properties', () => {
+      addFilter('button!~2,target.tagName~DIV');
+
+      click({ button: 2 });
+      click({ button: 1 });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only prevent and stop matching events', () => {
+      const sibling: jasmine.Spy = jasmine.createSpy('sibling');
+      addFilter('altKey', OptionSymbol.PreventDefault + OptionSymbol.Stop);
+      addEvent(OptionSymbol.Force, el, sibling);
+
+      expect(click({ altKey: false }).defaultPrevented).toEqual(false);
+      expect(sibling).toHaveBeenCalledTimes(1);
+
+      expect(click({ altKey: true }).defaultPrevented).toEqual(true);
+      expect(sibling).toHaveBeenCalledTimes(1);
+    });
+
+    it('should check the filter before the other operators', () => {
+      addEvent(`${OptionSymbol.Force}${EventSeparator.Block}${OperatorSymbol.Take}${EventSeparator.Operator}` +
+        `${OperatorSymbol.Filter}[ctrlKey]`, el, listener);
+
+      click({ ctrlKey: false });
+      click({ ctrlKey: true });
+      click({ ctrlKey: true });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.calls.mostRecent().args[ 0 ].ctrlKey).toEqual(true);
+    });
+
+    it('should filter the events of a template binding', () => {
+      const fixture: ComponentFixture<BindingComponent> =
+        createBinding('<div (pointerdown.nd|flt[pointerType~touch,button~0])="listener($event)"></div>');
+      const target: HTMLElement = fixture.nativeElement.querySelector('div');
+
+      target.dispatchEvent(new PointerEvent('pointerdown', { pointerType: 'mouse', button: 0 }));
+      target.dispatchEvent(new PointerEvent('pointerdown', { pointerType: 'touch', button: 0 }));
+
+      expect(fixture.componentInstance.listener).toHaveBeenCalledTimes(1);
+      expect(fixture.componentInstance.listener.calls.mostRecent().args[ 0 ].pointerType).toEqual('touch');
+    });
+  });
+
+  describe('Check `MediaQuery` operator', () => {
+    let listener: jasmine.Spy;
+    let mediaQueryList: { matches: boolean, addListener: jasmine.Spy, removeListener: jasmine.Spy };
+
+    const query = '(hover: hover)';
+    const mediaQuery = `${OptionSymbol.Force}${EventSeparator.Block}${OperatorSymbol.MediaQuery}[${query}]`;
+
+    const setMatches = (matches: boolean): void => {
+      mediaQueryList.matches = matches;
+      mediaQueryList.addListener.calls.mostRecent().args[ 0 ](mediaQueryList);
+    };
+
+    beforeEach(() => {
+      el = document.createElement('div');
+      listener = jasmine.createSpy('listener');
+      mediaQueryList = {
+        matches: false,
+        addListener: jasmine.createSpy('addListener'),
+        removeListener: jasmine.createSpy('removeListener')
+      };
+      spyOn(window, 'matchMedia').and.returnValue(mediaQueryList);
+    });
+
+    it('should only add the event listener while the media query matches', () => {
+      spyOn(el, 'addEventListener').and.callThrough();
+      addEvent(mediaQuery, el, listener);
+
+      expect(window.matchMedia).toHaveBeenCalledWith(query);
+      expect(el.addEventListener).toHaveBeenCalledTimes(0);
+
+      setMatches(true);
+      el.click();
+      expect(el.addEventListener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      setMatches(false);
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      setMatches(true);
+      el.click();
+      expect(el.addEventListener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should turn the media features of a template binding into a media query list', () => {
+      const fixture: ComponentFixture<BindingComponent> =
+        createBinding('<div (click.*|mq[hover~hover,min-width~600px])="listener($event)"></div>');
+
+      expect(window.matchMedia).toHaveBeenCalledWith(`${query}, (min-width: 600px)`);
+
+      setMatches(true);
+      fixture.nativeElement.querySelector('div').click();
+      expect(fixture.componentInstance.listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not call a `Once` listener again after the media query matches again', () => {
+      addEvent(`${OptionSymbol.Once}${EventSeparator.Block}${OperatorSymbol.MediaQuery}[${query}]`, el, listener);
+
+      setMatches(true);
+      el.click();
+      expect(mediaQueryList.removeListener).toHaveBeenCalledTimes(1);
+
+      setMatches(false);
+      setMatches(true);
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop listening to the media query when the event listener is removed', () => {
+      mediaQueryList.matches = true;
+      spyOn(el, 'removeEventListener').and.callThrough();
+
+      addEvent(mediaQuery, el, listener)();
+      el.click();
+
+      expect(el.removeEventListener).toHaveBeenCalledTimes(1);
+      expect(mediaQueryList.removeListener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledTimes(0);
+    });
+
+    it('should not add the event listener on the server', () => {
+      domEventOptionsPlugin = new DomEventOptionsPlugin(
+        ngZone, document, 'server', null, [ new MediaQueryEventOperator('server') ],
+        TestBed.get(EventReplayService), new ServerEventOptionsSupport()
+      );
+      spyOn(el, 'addEventListener');
+
+      addEvent(mediaQuery, el, listener);
+
+      expect(window.matchMedia).not.toHaveBeenCalled();
+      expect(el.addEventListener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Configuration', () => {
+    const createPlugin = (config: Partial<EventOptionsConfig>): void => {
+      domEventOptionsPlugin = new DomEventOptionsPlugin(
+        ngZone, document, 'browser', config, TestBed.get(EVENT_OPTIONS_OPERATORS),
+        TestBed.get(EventReplayService), TestBed.get(EventOptionsSupport)
+      );
+    };
+
+    beforeEach(() => {
+      el = document.createElement('div');
+    });
+
+    it('should provide the config through forRoot', () => {
+      const config: Partial<EventOptionsConfig> = { globalOptions: OptionSymbol.InBrowser };
+      const providers: any[] = NgEventOptionsModule.forRoot(config).providers as any[];
+
+      expect(providers).toContain({ provide: EVENT_OPTIONS_CONFIG, useValue: config });
+    });
+
+    it('should add the global options to every event binding', async () => {
+      createPlugin({ globalOptions: OptionSymbol.NoZone });
+
+      const result: boolean = await new Promise<boolean>((resolve) => {
+        addEvent(OptionSymbol.Force, el, () => resolve(NgZone.isInAngularZone()));
+        el.click();
+      });
+
+      await expect(result).toEqual(false);
+    });
+
+    it('should warn instead of throw on passive, prevent default when configured', () => {
+      createPlugin({ conflictStrategy: ConflictStrategy.Warn });
+      spyOn(console, 'warn');
+
+      expect(() => addEvent(OptionSymbol.Passive + OptionSymbol.PreventDefault)).not.toThrow();
+      expect(console.warn).toHaveBeenCalledWith(ErrorMsg.PassivePreventDefault);
+    });
+
+    it('should use the configured operator params for omitted params', fakeAsync(() => {
+      const listener: jasmine.Spy = jasmine.createSpy('listener');
+      createPlugin({ operatorParams: { [ OperatorSymbol.Debounce ]: [ time * 2 ] } });
+
+      addEvent(createOperator(OperatorSymbol.Debounce), el, listener);
+      el.click();
+
+      tick(time);
+      expect(listener).toHaveBeenCalledTimes(0);
+
+      tick(time);
+      expect(listener).toHaveBeenCalledTimes(1);
+    }));
+
+    it('should flush the pending invocation on removal when configured', fakeAsync(() => {
+      const listener: jasmine.Spy = jasmine.createSpy('listener');
+      createPlugin({ teardownStrategy: TeardownStrategy.Flush });
+
+      const remove: () => void = addEvent(createOperator(OperatorSymbol.Debounce, time), el, listener);
+      el.click();
+      remove();
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      tick(time);
+      expect(listener).toHaveBeenCalledTimes(1);
+    }));
+
+    it('should prefer the params of the event binding', fakeAsync(() => {
+      const listener: jasmine.Spy = jasmine.createSpy('listener');
+      createPlugin({ operatorParams: { [ OperatorSymbol.Debounce ]: [ time * 2, 1 ] } });
+
+      addEvent(createOperator(OperatorSymbol.Debounce, time), el, listener);
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      tick(time);
+      el.click();
+      expect(listener).toHaveBeenCalledTimes(2);
+    }));
+  });
+
+  describe('Strict mode', () => {
+    const expectError = (eventName: string, error: ErrorMsg, ...replace: string[]): void => {
+      expect(() => domEventOptionsPlugin.supports(eventName)).toThrowError(formatError(error, ...replace, eventName));
+    };
+
+    beforeEach(() => {
+      const operators: EventOperator[] = TestBed.get(EVENT_OPTIONS_OPERATORS);
+      domEventOptionsPlugin = new DomEventOptionsPlugin(
+        ngZone, document, 'browser', { strict: true }, operators,
+        TestBed.get(EventReplayService), TestBed.get(EventOptionsSupport)
+      );
+    });
+
+    it('should not throw for event bindings which are not meant for this module', () => {
+      expect(domEventOptionsPlugin.supports('click')).toEqual(false);
+      expect(domEventOptionsPlugin.supports('keydown.enter')).toEqual(false);
+      expect(domEventOptionsPlugin.supports('keydown.shift.c')).toEqual(false);
+      expect(domEventOptionsPlugin.supports('keyup.control.shift.enter')).toEqual(false);
+    });
+
+    it('should not throw for valid event bindings', () => {
+      expect(domEventOptionsPlugin.supports('click.pn')).toEqual(true);
+      expect(domEventOptionsPlugin.supports('keydown.enter.pn|db[50,1]')).toEqual(true);
+      expect(domEventOptionsPlugin.supports('scroll.pn|raf, th[50,,both]')).toEqual(true);
+    });
+
+    it('should throw on unknown options', () => {
+      expectError('click.pq', ErrorMsg.UnknownOption, 'q');
+    });
+
+    it('should throw on duplicate options', () => {
+      expectError('click.pnp', ErrorMsg.DuplicateOption, 'p');
+    });
+
+    it('should throw on invalid keys', () => {
+      expectError('keydown.foo.bar.pn', ErrorMsg.InvalidKey, 'foo.bar');
+      expectError('click.enter.pn', ErrorMsg.InvalidKey, 'enter');
+    });
+
+    it('should throw on unknown operators', () => {
+      expectError('click.*|dbb[50]', ErrorMsg.UnknownOperator, 'dbb');
+    });
+
+    it('should throw on malformed brackets', () => {
+      expectError('click.*|db[50', ErrorMsg.MalformedOperator, '[50');
+      expectError('click.*|db[50]]', ErrorMsg.MalformedOperator, ']');
+      expectError('click.*|db[50]th[50]', ErrorMsg.MalformedOperator, 'th[50]');
+    });
+
+    it('should throw on non numeric params', () => {
+      expectError('click.*|db[5O]', ErrorMsg.NonNumericParam, '5O', OperatorSymbol.Debounce);
+      expectError('click.*|th[fast]', ErrorMsg.NonNumericParam, 'fast', OperatorSymbol.Throttle);
+    });
+  });
+
+  describe('Custom operators', () => {
+    const tapped: string[][] = [];
+
+    class TapEventOperator implements EventOperator {
+      readonly symbol: string = 'tap';
+
+      apply(listener: EventListener, params: string[]): EventListener {
+        return (event: Event) => {
+          tapped.push(params);
+          listener(event);
+        };
+      }
+    }
+
+    beforeEach(() => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [
+          DomEventOptionsPlugin,
+          EventReplayService,
+          eventOptionsSupportProvider,
+          builtInOperatorProviders,
+          { provide: EVENT_OPTIONS_OPERATORS, useClass: TapEventOperator, multi: true },
+          { provide: EVENT_OPTIONS_CONFIG, useValue: { operatorParams: { tap: [ 'default', 1 ] } } }
+        ]
+      });
+      domEventOptionsPlugin = TestBed.get(DomEventOptionsPlugin);
+      ngZone = TestBed.get(NgZone);
+      el = document.createElement('div');
+      tapped.length = 0;
+    });
+
+    it('should register the built-in operators through the operator token', () => {
+      const symbols: string[] = (TestBed.get(EVENT_OPTIONS_OPERATORS) as EventOperator[]).map(({ symbol }) => symbol);
+      expect(symbols).toEqual([ OperatorSymbol.Debounce, OperatorSymbol.Throttle, OperatorSymbol.AnimationFrame, 'tap' ]);
+    });
+
+    it('should apply a registered operator with the parsed params', () => {
+      const listener: jasmine.Spy = jasmine.createSpy('listener');
+      addEvent(`${OptionSymbol.Force}${EventSeparator.Block}tap[analytics,2]`, el, listener);
+      el.click();
+
+      expect(tapped).toEqual([ [ 'analytics', '2' ] ]);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should chain custom operators with the built-in operators', () => {
+      addEvent(`${OptionSymbol.Force}${EventSeparator.Block}tap[first],${OperatorSymbol.AnimationFrame},tap[second]`);
+      spyOn(window, 'requestAnimationFrame').and.callFake((frame: FrameRequestCallback) => frame(0));
+      el.click();
+
+      expect(tapped).toEqual([ [ 'first', '1' ], [ 'second', '1' ] ]);
+    });
+
+    it('should use the configured params for omitted params', () => {
+      addEvent(`${OptionSymbol.Force}${EventSeparator.Block}tap[]`);
+      el.click();
+
+      expect(tapped).toEqual([ [ 'default', '1' ] ]);
+    });
+
+    it('should ignore operators which are not registered', () => {
+      const listener: jasmine.Spy = jasmine.createSpy('listener');
+      addEvent(`${OptionSymbol.Force}${EventSeparator.Block}tab[analytics]`, el, listener);
+      el.click();
+
+      expect(tapped).toEqual([]);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
   });
 });
@@ -1,53 +1,95 @@
-import { Inject, Injectable, NgZone, PLATFORM_ID } from '@angular/core';
+import { Inject, Injectable, isDevMode, NgZone, Optional, PLATFORM_ID } from '@angular/core';
 import { DOCUMENT, isPlatformBrowser } from '@angular/common';
 
+import { ConflictStrategy } from '../enum/conflict-strategy.enum';
 import { ErrorMsg } from '../enum/error-msg.enum';
 import { EventOption } from '../enum/event-option.enum';
+import { EventSeparator } from '../enum/event-separator.enum';
 import { GlobalEventTarget } from '../enum/global-event-target.enum';
 import { NativeEventOption } from '../enum/native-event-option.enum';
-import { OperatorSymbol } from '../enum/operator-symbol.enum';
-import { OptionSymbol } from '../enum/option-symbol.enum';
+import { ObserverEventType } from '../enum/observer-event-type.enum';
+import { TeardownStrategy } from '../enum/teardown-strategy.enum';
 
 import { EventOptionsObject } from '../type/event-options-object';
+import { EventPredicate } from '../type/event-predicate';
+import { ListenerGate } from '../type/listener-gate';
+import { ObserveElement } from '../type/observe-element';
 
-import { EventTypeOptions } from "../interface/event-type-options.interface";
+import { CancelableEventListener } from '../interface/cancelable-event-listener.interface';
+import { EventDescriptor } from '../interface/event-descriptor.interface';
+import { EventOperator } from '../interface/event-operator.interface';
+import { EventOptionsConfig } from '../interface/event-options-config.interface';
+import { OperatorDescriptor } from '../interface/operator-descriptor.interface';
+import { ResizeObserverEntry } from '../interface/resize-observer-entry.interface';
+import { SharedEventListener } from '../interface/shared-event-listener.interface';
 
+import { EventOptionsSupport } from './event-options-support.service';
+import { EventReplayService } from './event-replay.service';
+
+import { defaultEventOptionsConfig } from '../config/default-event-options.config';
+
+import { EVENT_OPTIONS_CONFIG } from '../token/event-options-config.token';
+import { EVENT_OPTIONS_OPERATORS } from '../token/event-options-operators.token';
+
+import { parseEventName, parseOptions } from '../grammar/event-name.grammar';
+
+import { formatError } from '../helper/format-error';
 import { getBitValue } from '../helper/get-bit-value';
-import { throttleEvent } from '../helper/throttle-event';
-import { debounceEvent } from '../helper/debounce-event';
-import {EventSeparator} from "../enum/event-separator.enum";
+import { getEventFullKey } from '../helper/get-event-full-key';
+import { sharedObserver } from '../helper/shared-observer';
+import { skipDispatchingEvent } from '../helper/skip-dispatching-event';
+import { visibilityGate } from '../helper/visibility-gate';
 
 @Injectable()
 // EventManagerPlugin is not yet part of the public API of Angular, once it is I can remove the `addGlobalEventListener`
 export class DomEventOptionsPlugin /*extends EventManagerPlugin*/ {
 
-  private nativeEventObjectSupported?: boolean;
+  private readonly config: EventOptionsConfig;
 
   private readonly nativeOptionsObjects: { [key: number]: AddEventListenerOptions } = {};
 
-  private readonly nativeOptionsSupported: { [O in NativeEventOption]: boolean } = {
-    capture: false,
-    once: false,
-    passive: false
-  };
+  private readonly operators: EventOperator[];
 
-  private readonly keyEvents: (keyof DocumentEventMap)[] = [ 'keydown', 'keypress', 'keyup' ];
+  // parsed event bindings, so repeated bindings of the same event skip parsing
+  private readonly descriptors: { [eventName: string]: EventDescriptor } = {};
 
-  private readonly operatorSymbols: OperatorSymbol[] = Object.values(OperatorSymbol);
+  protected readonly globalOptions: number;
 
-  private readonly supportPattern = new RegExp(`^(?!.*(.).*\\1)[${Object.values(OptionSymbol).join('')}]+$`);
+  // animation frame of the coalesced change detection
+  private changeDetectionFrame = 0;
+
+  // document listeners of the outside option, shared per event type and native options
+  private readonly outsideListeners: { [key: string]: SharedEventListener } = {};
+
+  private readonly observeIntersection: ObserveElement<IntersectionObserverEntry> =
+    sharedObserver((callback: (entries: IntersectionObserverEntry[]) => void) => new IntersectionObserver(callback));
+
+  private readonly observeResize: ObserveElement<ResizeObserverEntry> =
+    sharedObserver((callback: (entries: ResizeObserverEntry[]) => void) => new (window as any).ResizeObserver(callback));
 
   constructor(private readonly ngZone: NgZone,
               @Inject(DOCUMENT) private readonly doc: any,
-              @Inject(PLATFORM_ID) private readonly platformId: Object) {
-    this.checkSupport();
+              @Inject(PLATFORM_ID) private readonly platformId: Object,
+              @Optional() @Inject(EVENT_OPTIONS_CONFIG) config: Partial<EventOptionsConfig> | null,
+              @Optional() @Inject(EVENT_OPTIONS_OPERATORS) operators: EventOperator[] | null,
+              private readonly eventReplay: EventReplayService,
+              private readonly support: EventOptionsSupport) {
+    this.config = this.mergeConfig(config || {});
+    this.operators = operators || [];
+    this.globalOptions = parseOptions(this.config.globalOptions);
   }
 
-  addEventListener(element: HTMLElement, eventName: string, listener: EventListener): () => void {
-    const { type, options, operators }: EventTypeOptions = this.getTypeOptions(eventName);
-    const inBrowser: number = options.includes(OptionSymbol.InBrowser) ? EventOption.InBrowser : 0;
+  // complete is called after the last event, once the listener removed itself through the once option or an operator
+  addEventListener(element: HTMLElement, eventName: string, listener: EventListener, complete?: () => void): () => void {
+    const { type, key, options: eventOptions, operators }: EventDescriptor = this.getDescriptor(eventName);
+    const options: number = eventOptions | this.globalOptions;
+    const inBrowser: number = options & EventOption.InBrowser;
 
     if (inBrowser && !isPlatformBrowser(this.platformId)) {
+      if (this.config.replay) {
+        this.eventReplay.record(element, type);
+      }
+
       return (): void => void 0;
     }
 
@@ -55,47 +97,78 @@ export class DomEventOptionsPlugin /*extends EventManagerPlugin*/ {
       listener = () => void 0;
     }
 
-    const passive: number = options.includes(OptionSymbol.Passive) ? EventOption.Passive : 0;
-    const preventDefault: number = options.includes(OptionSymbol.PreventDefault) ? EventOption.PreventDefault : 0;
+    const passive: number = options & EventOption.Passive;
+    let preventDefault: number = options & EventOption.PreventDefault;
 
     if (passive && preventDefault) {
-      throw new Error(ErrorMsg.PassivePreventDefault);
-    }
-
-    const stop: number = options.includes(OptionSymbol.Stop) ? EventOption.Stop : 0;
-    const once: number = options.includes(OptionSymbol.Once) ? EventOption.Once : 0;
-    const noZone: number = options.includes(OptionSymbol.NoZone) ? EventOption.NoZone : 0;
-    const capture: number = options.includes(OptionSymbol.Capture) ? EventOption.Capture : 0;
-
-    const operatorSettings: Partial<{ [OS in OperatorSymbol]: string[]}> = this.parseOperators(operators);
+      if (this.config.conflictStrategy === ConflictStrategy.Throw) {
+        throw new Error(ErrorMsg.PassivePreventDefault);
+      }
 
-    const debounceParams: string[] | undefined = operatorSettings[ OperatorSymbol.Debounce ];
-    const throttleParams: string[] | undefined = operatorSettings[ OperatorSymbol.Throttle ];
+      console.warn(ErrorMsg.PassivePreventDefault);
+      preventDefault = 0;
+    }
 
-    const bitVal: number = getBitValue(capture, once, passive);
+    const stop: number = options & EventOption.Stop;
+    const once: number = options & EventOption.Once;
+    const noZone: number = options & EventOption.NoZone;
+    const coalesce: number = options & EventOption.Coalesce;
+    const capture: number = options & EventOption.Capture;
+    const exact: number = options & EventOption.Exact;
+    const outside: number = options & EventOption.Outside;
+    const observed: boolean = this.isObserverEvent(type, element);
+    const filter: EventPredicate | undefined = this.createFilter(operators, element);
+    const gates: ListenerGate[] = this.createGates(operators, element, options);
+    const filtered: boolean = !!key || !!exact || !!outside || !!filter || observed || gates.length > 0;
+
+    // the native once option would remove the listener on a non matching key, target or filter, or the shared listeners,
+    // and a gated listener would be added again once its gates reopen
+    const bitVal: number = getBitValue(capture, filtered ? 0 : once, passive);
     const eventOptionsObj: EventOptionsObject = this.getEventOptionsObject(bitVal);
     const inZone: boolean = NgZone.isInAngularZone();
+    let removedSelf = false;
 
     const callback: EventListener = (event: Event) => {
-      if (noZone || !inZone) {
+      if (coalesce) {
+        listener(event);
+        this.scheduleChangeDetection();
+      } else if (noZone || !inZone) {
         listener(event);
       } else {
         this.ngZone.run((): void => listener(event));
       }
+
+      if (removedSelf && complete) {
+        complete();
+      }
     };
 
-    let debounceCallback: EventListener;
-    let throttleCallback: EventListener;
+    let removeListener: () => void;
 
-    if (debounceParams) {
-      debounceCallback = debounceEvent(callback, ...debounceParams.map(p => +p));
-    }
+    const removeSelf = (): void => {
+      removedSelf = true;
+      removeListener();
+    };
 
-    if (throttleParams) {
-      throttleCallback = throttleEvent(callback, ...throttleParams.map(p => +p));
-    }
+    const operatorCallback: CancelableEventListener = this.applyOperators(callback, operators, element, removeSelf);
 
     const intermediateListener: EventListener = (event: Event): void => {
+      if (key && getEventFullKey(event as KeyboardEvent) !== key) {
+        return;
+      }
+
+      if (exact && event.target !== element) {
+        return;
+      }
+
+      if (outside && element.contains(event.target as Node)) {
+        return;
+      }
+
+      if (filter && !filter(event)) {
+        return;
+      }
+
       if (stop) {
         event.stopPropagation();
         event.stopImmediatePropagation();
@@ -105,33 +178,63 @@ export class DomEventOptionsPlugin /*extends EventManagerPlugin*/ {
         event.preventDefault();
       }
 
-      if (once && !this.nativeOptionsSupported[ NativeEventOption.Once ]) {
-        element.removeEventListener(type, intermediateListener, eventOptionsObj);
+      if (once && (filtered || !this.support.supports(NativeEventOption.Once))) {
+        removeSelf();
+      } else if (once) {
+        // the native once option already removed the listener
+        removedSelf = true;
       }
 
-      if (debounceCallback) {
-        debounceCallback(event);
-      } else if (throttleCallback) {
-        throttleCallback(event);
-      } else {
-        callback(event);
-      }
+      operatorCallback(event);
     };
 
-    if (inZone) {
-      this.ngZone.runOutsideAngular((): void =>
-        element.addEventListener(type, intermediateListener, eventOptionsObj)
-      );
-    } else {
+    const addListener = (): () => void => {
+      if (observed) {
+        return this.addObserverEventListener(type as ObserverEventType, element, intermediateListener);
+      }
+
+      if (outside) {
+        return this.addOutsideEventListener(type, bitVal, eventOptionsObj, intermediateListener);
+      }
+
       element.addEventListener(type, intermediateListener, eventOptionsObj);
-    }
 
-    return () => this.ngZone.runOutsideAngular((): void =>
-      element.removeEventListener(type, intermediateListener, eventOptionsObj)
-    );
+      return (): void => element.removeEventListener(type, intermediateListener, eventOptionsObj);
+    };
+
+    const addGatedListener = (): () => void => {
+      const removeGatedListener: () => void = this.gateListener(gates, addListener);
+
+      if (!inBrowser || !this.config.replay) {
+        return removeGatedListener;
+      }
+
+      // the interactions recorded on the server are replayed once the listener is added in the browser
+      const cancelReplay: () => void = this.eventReplay.replay(element, type, intermediateListener);
+
+      return (): void => {
+        cancelReplay();
+        removeGatedListener();
+      };
+    };
+
+    removeListener = inZone ? this.ngZone.runOutsideAngular(addGatedListener) : addGatedListener();
+
+    return () => this.ngZone.runOutsideAngular((): void => {
+      removeListener();
+
+      if (this.config.teardownStrategy === TeardownStrategy.Flush && operatorCallback.flush) {
+        operatorCallback.flush();
+      } else if (operatorCallback.cancel) {
+        operatorCallback.cancel();
+      }
+    });
   }
 
-  addGlobalEventListener(element: GlobalEventTarget, eventName: string, listener: EventListener): () => void {
+  addGlobalEventListener(element: GlobalEventTarget,
+                         eventName: string,
+                         listener: EventListener,
+                         complete?: () => void): () => void {
     if (!isPlatformBrowser(this.platformId)) {
       return (): void => void 0;
     }
@@ -145,72 +248,250 @@ export class DomEventOptionsPlugin /*extends EventManagerPlugin*/ {
     } else if (element === GlobalEventTarget.Body && this.doc) {
       target = this.doc.body;
     } else {
-      const replace: string[] = [ element, eventName ];
-      throw new Error(ErrorMsg.UnsupportedEventTarget.replace(/\|~/g, () => replace.shift() as string));
+      throw new Error(formatError(ErrorMsg.UnsupportedEventTarget, element, eventName));
     }
 
-    return this.addEventListener(target as HTMLElement, eventName, listener);
+    return this.addEventListener(target as HTMLElement, eventName, listener, complete);
   }
 
   supports(eventName: string): boolean {
-    const { type, options }: EventTypeOptions = this.getTypeOptions(eventName);
+    const { type, error }: EventDescriptor = this.getDescriptor(eventName);
 
-    // if no event type is found
-    if (!type) {
-      return false;
+    if (error && this.config.strict && isDevMode()) {
+      throw new Error(formatError(error.msg, ...error.params));
     }
 
-    // if it's a key event it needs to have more than one option for support
-    if (options.length === 1 && this.keyEvents.includes(type as keyof DocumentEventMap)) {
-      return false;
+    return !!type;
+  }
+
+  // a single document listener per event type calls every subscriber, and is removed with the last subscriber
+  private addOutsideEventListener(type: string,
+                                  bitVal: number,
+                                  eventOptionsObj: EventOptionsObject,
+                                  listener: EventListener): () => void {
+    const key = `${type}${EventSeparator.Option}${bitVal}`;
+    const subscriber: EventListener = skipDispatchingEvent(listener);
+
+    if (!(key in this.outsideListeners)) {
+      const subscribers: EventListener[] = [];
+
+      this.outsideListeners[ key ] = {
+        // copied, because a subscriber with the once option removes itself while dispatching
+        listener: (event: Event): void => subscribers.slice().forEach(sub => sub(event)),
+        subscribers
+      };
+      this.doc.addEventListener(type, this.outsideListeners[ key ].listener, eventOptionsObj);
     }
 
-    return !!options.match(this.supportPattern);
+    const shared: SharedEventListener = this.outsideListeners[ key ];
+    shared.subscribers.push(subscriber);
+
+    return (): void => {
+      const index: number = shared.subscribers.indexOf(subscriber);
+
+      if (index === -1) {
+        return;
+      }
+
+      shared.subscribers.splice(index, 1);
+
+      if (!shared.subscribers.length) {
+        this.doc.removeEventListener(type, shared.listener, eventOptionsObj);
+        delete this.outsideListeners[ key ];
+      }
+    };
   }
 
-  private checkSupport(): void {
-    const supportObj: object = new Object(null);
+  // resize and intersect events of elements are created from the entries of the shared observers
+  private addObserverEventListener(type: ObserverEventType, element: HTMLElement, listener: EventListener): () => void {
+    const observer: string = type === ObserverEventType.Resize ? 'ResizeObserver' : 'IntersectionObserver';
 
-    Object.keys(NativeEventOption).map(optionKey => NativeEventOption[ optionKey as any ]).forEach(nativeOption =>
-      Object.defineProperty(supportObj, nativeOption, {
-        get: () => {
-          this.nativeOptionsSupported[ nativeOption as NativeEventOption ] = true;
-        }
-      })
-    );
+    if (!(observer in window)) {
+      return (): void => void 0;
+    }
 
-    try {
-      window.addEventListener('test', new Function as EventListener, supportObj);
-    } catch {
+    if (type === ObserverEventType.Resize) {
+      return this.observeResize(element, (entry: ResizeObserverEntry) => listener(new CustomEvent(type, { detail: entry })));
     }
 
-    this.nativeEventObjectSupported = this.nativeOptionsSupported[ NativeEventOption.Capture ];
+    let intersected = false;
+
+    // the initial entry of an element outside of the viewport is not a change, so `(intersect.o)` waits for the element to intersect
+    return this.observeIntersection(element, (entry: IntersectionObserverEntry) => {
+      intersected = intersected || entry.isIntersecting;
+
+      if (intersected) {
+        listener(new CustomEvent(type, { detail: entry }));
+      }
+    });
   }
 
-  private parseOperators(operatorsStr: string): Partial<{ [OS in OperatorSymbol]: string[]}> {
-    const operators: Partial<{ [OS in OperatorSymbol]: string[]}> = {};
+  private isObserverEvent(type: string, element: HTMLElement): boolean {
+    return (type === ObserverEventType.Resize || type === ObserverEventType.Intersect)
+      && isPlatformBrowser(this.platformId) && element instanceof Element;
+  }
 
-    if (operatorsStr) {
-      operatorsStr.split(/],?/).forEach(operatorStr => {
-        const parts: string[] = operatorStr.split('[');
-        if (parts.length === 2) {
-          const operator: OperatorSymbol = parts[ 0 ] as OperatorSymbol;
-          if (operator && this.operatorSymbols.indexOf(operator) > -1) {
-            operators[ operator ] = parts[ 1 ].split(EventSeparator.Operator).filter(p => p);
-          }
-        }
+  // entering the zone triggers the change detection, so every listener with the coalesce option shares a single run per frame
+  private scheduleChangeDetection(): void {
+    if (!isPlatformBrowser(this.platformId)) {
+      this.ngZone.run((): void => void 0);
+    } else if (!this.changeDetectionFrame) {
+      this.changeDetectionFrame = requestAnimationFrame(() => {
+        this.changeDetectionFrame = 0;
+        this.ngZone.run((): void => void 0);
       });
     }
+  }
+
+  // every operator wraps the next one in the order of the event binding, so `th[100],db[50]` debounces the throttled events
+  protected applyOperators(callback: EventListener,
+                           operators: OperatorDescriptor[],
+                           element: HTMLElement,
+                           remove: () => void): CancelableEventListener {
+    if (!operators.length) {
+      return callback;
+    }
+
+    const listeners: CancelableEventListener[] = [];
+
+    const pipeline: EventListener = operators.reduceRight((next: EventListener, descriptor: OperatorDescriptor) => {
+      const operator: EventOperator = this.getOperator(descriptor);
+
+      if (!operator.apply) {
+        return next;
+      }
+
+      const operatorListener: CancelableEventListener = operator.apply(next, this.getOperatorParams(descriptor), element, remove);
+      listeners.unshift(operatorListener);
+
+      return operatorListener;
+    }, callback);
+
+    // flushing in order, because a flushed operator can create a pending invocation in the next operator
+    return Object.assign((event: Event): void => pipeline(event), {
+      cancel: (): void => listeners.forEach(listener => listener.cancel && listener.cancel()),
+      flush: (): void => listeners.forEach(listener => listener.flush ? listener.flush() : listener.cancel && listener.cancel())
+    });
+  }
+
+  // the filters of the event binding are combined, regardless of their position in the pipeline
+  private createFilter(operators: OperatorDescriptor[], element: HTMLElement): EventPredicate | undefined {
+    const predicates: EventPredicate[] = operators.reduce((filters: EventPredicate[], descriptor: OperatorDescriptor) => {
+      const operator: EventOperator = this.getOperator(descriptor);
 
-    return operators;
+      return operator.filter ? [ ...filters, operator.filter(this.getOperatorParams(descriptor), element) ] : filters;
+    }, []);
+
+    return predicates.length ? (event: Event): boolean => predicates.every(predicate => predicate(event)) : undefined;
+  }
+
+  private createGates(operators: OperatorDescriptor[], element: HTMLElement, options: number): ListenerGate[] {
+    const gates: ListenerGate[] = operators.reduce((operatorGates: ListenerGate[], descriptor: OperatorDescriptor) => {
+      const operator: EventOperator = this.getOperator(descriptor);
+
+      return operator.gate
+        ? [ ...operatorGates, operator.gate.bind(operator, this.getOperatorParams(descriptor), element) ]
+        : operatorGates;
+    }, []);
+
+    if (options & EventOption.Visible) {
+      gates.push(toggle => isPlatformBrowser(this.platformId) ? visibilityGate(this.doc, toggle) : this.openGate(toggle));
+    }
+
+    if (options & EventOption.InView) {
+      gates.push(toggle => this.intersectionGate(element, toggle));
+    }
+
+    return gates;
+  }
+
+  // elements which cannot be observed, like the global event targets, are always in view
+  private intersectionGate(element: HTMLElement, toggle: (active: boolean) => void): () => void {
+    if (!isPlatformBrowser(this.platformId) || typeof IntersectionObserver === 'undefined' || !(element instanceof Element)) {
+      return this.openGate(toggle);
+    }
+
+    return this.observeIntersection(element, ({ isIntersecting }: IntersectionObserverEntry) => toggle(isIntersecting));
+  }
+
+  private openGate(toggle: (active: boolean) => void): () => void {
+    toggle(true);
+
+    return (): void => void 0;
+  }
+
+  // the event listener is only added while every gate of the event binding is active
+  private gateListener(gates: ListenerGate[], addListener: () => () => void): () => void {
+    const active: boolean[] = gates.map(() => false);
+    let connected = false;
+    let removeListener: (() => void) | undefined;
+
+    const update = (): void => {
+      if (connected && active.every(gateActive => gateActive)) {
+        removeListener = removeListener || addListener();
+      } else if (removeListener) {
+        removeListener();
+        removeListener = undefined;
+      }
+    };
+
+    if (!gates.length) {
+      return addListener();
+    }
+
+    const removeGates: (() => void)[] = gates.map((gate, index) => gate((gateActive: boolean): void => {
+      active[ index ] = gateActive;
+      update();
+    }));
+
+    // the gates are only evaluated once all of them are known
+    connected = true;
+    update();
+
+    return (): void => {
+      removeGates.forEach(removeGate => removeGate());
+      connected = false;
+      update();
+    };
+  }
+
+  protected getDescriptor(eventName: string): EventDescriptor {
+    if (!(eventName in this.descriptors)) {
+      this.descriptors[ eventName ] = parseEventName(eventName, this.operators);
+    }
+
+    return this.descriptors[ eventName ];
+  }
+
+  private getOperator({ symbol }: OperatorDescriptor): EventOperator {
+    return this.operators.find(operator => operator.symbol === symbol) as EventOperator;
+  }
+
+  private getOperatorParams({ symbol, params }: OperatorDescriptor): string[] {
+    const defaultParams: (number | string)[] = this.config.operatorParams[ symbol ] || [];
+    const length: number = Math.max(params.length, defaultParams.length);
+
+    // omitted parameters, like the time in `th[,1]`, are taken from the configuration
+    return Array.from({ length }, (_, i) => params[ i ] || (defaultParams[ i ] == null ? '' : `${defaultParams[ i ]}`));
+  }
+
+  private mergeConfig(config: Partial<EventOptionsConfig>): EventOptionsConfig {
+    return {
+      ...defaultEventOptionsConfig,
+      ...config,
+      operatorParams: { ...defaultEventOptionsConfig.operatorParams, ...config.operatorParams }
+    };
   }
 
   private getEventOptionsObject(options: number): EventOptionsObject {
-    if (!this.nativeEventObjectSupported) {
+    if (!this.support.supports(NativeEventOption.Capture)) {
       return (options & EventOption.Capture) === EventOption.Capture;
     }
 
-    const eventOptions: number = (options & EventOption.Capture) + (options & EventOption.Passive) + (options & EventOption.Once);
+    // unsupported options are left out, so a browser without support for them is simulated by the EventOptionsSupport
+    const eventOptions: number = (options & EventOption.Capture)
+      + (this.support.supports(NativeEventOption.Passive) ? options & EventOption.Passive : 0)
+      + (this.support.supports(NativeEventOption.Once) ? options & EventOption.Once : 0);
 
     if (eventOptions in this.nativeOptionsObjects) {
       return this.nativeOptionsObjects[ eventOptions ];
@@ -226,24 +507,4 @@ export class DomEventOptionsPlugin /*extends EventManagerPlugin*/ {
 
     return optionsObj;
   }
-
-  private getTypeOptions(eventName: string): EventTypeOptions {
-    let [ type, options, operators ]: string[] = eventName.split(EventSeparator.Option);
-
-    if (!options || !type) {
-      return { type: '', options: '', operators: '' };
-    }
-
-    [ options, operators ] = options.split(EventSeparator.Block);
-
-    if (!operators) {
-      operators = '';
-    }
-
-    type = type.trim();
-    options = options.trim();
-    operators = operators.trim();
-
-    return { type, options, operators };
-  }
 }
@@ -0,0 +1,16 @@
+import { PLATFORM_ID, Provider } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+
+import { BrowserEventOptionsSupport } from './browser-event-options-support.service';
+import { EventOptionsSupport } from './event-options-support.service';
+import { ServerEventOptionsSupport } from './server-event-options-support.service';
+
+export function eventOptionsSupportFactory(platformId: Object): EventOptionsSupport {
+  return isPlatformBrowser(platformId) ? new BrowserEventOptionsSupport() : new ServerEventOptionsSupport();
+}
+
+export const eventOptionsSupportProvider: Provider = {
+  provide: EventOptionsSupport,
+  useFactory: eventOptionsSupportFactory,
+  deps: [ PLATFORM_ID ]
+};
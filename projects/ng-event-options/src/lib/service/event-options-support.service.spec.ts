@@ -0,0 +1,48 @@
+import { TestBed } from '@angular/core/testing';
+import { PLATFORM_ID } from '@angular/core';
+
+import { BrowserEventOptionsSupport } from './browser-event-options-support.service';
+import { EventOptionsSupport } from './event-options-support.service';
+import { eventOptionsSupportProvider } from './event-options-support.provider';
+import { ServerEventOptionsSupport } from './server-event-options-support.service';
+
+import { NativeEventOption } from '../enum/native-event-option.enum';
+
+const nativeOptions: NativeEventOption[] = [ NativeEventOption.Capture, NativeEventOption.Once, NativeEventOption.Passive ];
+
+describe('Event options support', () => {
+  const getSupport = (platformId: string): EventOptionsSupport => {
+    TestBed.configureTestingModule({ providers: [ eventOptionsSupportProvider, { provide: PLATFORM_ID, useValue: platformId } ] });
+
+    return TestBed.get(EventOptionsSupport);
+  };
+
+  it('should provide the browser support in the browser', () => {
+    expect(getSupport('browser')).toEqual(jasmine.any(BrowserEventOptionsSupport));
+  });
+
+  it('should provide the server support on the server', () => {
+    expect(getSupport('server')).toEqual(jasmine.any(ServerEventOptionsSupport));
+  });
+
+  it('should detect the native options in the browser', () => {
+    const support: EventOptionsSupport = new BrowserEventOptionsSupport();
+
+    nativeOptions.forEach(option => expect(support.supports(option)).toEqual(true));
+  });
+
+  it('should not support any native option on the server', () => {
+    const support: EventOptionsSupport = new ServerEventOptionsSupport();
+
+    nativeOptions.forEach(option => expect(support.supports(option)).toEqual(false));
+  });
+
+  it('should allow the support to be declared explicitly', () => {
+    const supports = (option: NativeEventOption): boolean => option === NativeEventOption.Capture;
+    TestBed.configureTestingModule({ providers: [ { provide: EventOptionsSupport, useValue: { supports } } ] });
+    const support: EventOptionsSupport = TestBed.get(EventOptionsSupport);
+
+    expect(support.supports(NativeEventOption.Capture)).toEqual(true);
+    expect(support.supports(NativeEventOption.Passive)).toEqual(false);
+  });
+});
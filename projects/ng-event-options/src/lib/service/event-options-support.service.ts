@@ -0,0 +1,8 @@
+import { NativeEventOption } from '../enum/native-event-option.enum';
+
+// detects the support of the native event listener options, provide a custom implementation to declare the support explicitly
+export abstract class EventOptionsSupport {
+
+  // the options object of an event listener is only supported when the capture option is supported
+  abstract supports(option: NativeEventOption): boolean;
+}
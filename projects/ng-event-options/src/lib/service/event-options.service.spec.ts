@@ -0,0 +1,110 @@
+import { NgZone } from '@angular/core';
+import { fakeAsync, TestBed, tick } from '@angular/core/testing';
+import { Observable, Subscription } from 'rxjs';
+
+import { DomEventOptionsPlugin } from './dom-event-options-plugin.service';
+import { EventOptionsService } from './event-options.service';
+import { eventOptionsSupportProvider } from './event-options-support.provider';
+import { EventReplayService } from './event-replay.service';
+
+import { ErrorMsg } from '../enum/error-msg.enum';
+import { GlobalEventTarget } from '../enum/global-event-target.enum';
+
+import { builtInOperatorProviders } from '../operator/built-in-operator.providers';
+
+let eventOptionsService: EventOptionsService;
+let el: HTMLDivElement;
+
+describe('Event options service', () => {
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        DomEventOptionsPlugin, EventOptionsService, EventReplayService, eventOptionsSupportProvider, builtInOperatorProviders
+      ]
+    });
+    eventOptionsService = TestBed.get(EventOptionsService);
+    el = document.createElement('div');
+  });
+
+  it('should throw on an event without options', () => {
+    expect(() => eventOptionsService.listen(el, 'click')).toThrowError(ErrorMsg.UnsupportedEvent.replace('|~', 'click'));
+  });
+
+  it('should only add the event listener on subscription', () => {
+    spyOn(el, 'addEventListener');
+    const listener: Observable<Event> = eventOptionsService.listen(el, 'click.*');
+    expect(el.addEventListener).toHaveBeenCalledTimes(0);
+
+    listener.subscribe();
+    expect(el.addEventListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit the events', () => {
+    const events: Event[] = [];
+    const subscription: Subscription = eventOptionsService.listen(el, 'click.*').subscribe(event => events.push(event));
+    el.click();
+    el.click();
+    subscription.unsubscribe();
+
+    expect(events.length).toEqual(2);
+    expect(events[ 0 ].type).toEqual('click');
+  });
+
+  it('should remove the event listener on unsubscription', () => {
+    spyOn(el, 'removeEventListener');
+    eventOptionsService.listen(el, 'click.*').subscribe().unsubscribe();
+    expect(el.removeEventListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel pending operator invocations on unsubscription', fakeAsync(() => {
+    const listener: jasmine.Spy = jasmine.createSpy('listener');
+    const subscription: Subscription = eventOptionsService.listen(el, 'click.*|db[50]').subscribe(listener);
+    el.click();
+    subscription.unsubscribe();
+    tick(50);
+
+    expect(listener).toHaveBeenCalledTimes(0);
+  }));
+
+  it('should listen outside of NgZone when the `NoZone` option is used', async () => {
+    const ngZone: NgZone = TestBed.get(NgZone);
+    const result: boolean = await new Promise<boolean>(resolve => ngZone.run(() => {
+      eventOptionsService.listen(el, 'click.n').subscribe(() => resolve(NgZone.isInAngularZone()));
+      el.click();
+    }));
+
+    await expect(result).toEqual(false);
+  });
+
+  it('should listen to global event targets', () => {
+    const listener: jasmine.Spy = jasmine.createSpy('listener');
+    const subscription: Subscription = eventOptionsService.listen(GlobalEventTarget.Document, 'click.*').subscribe(listener);
+    document.dispatchEvent(new MouseEvent('click'));
+    subscription.unsubscribe();
+    document.dispatchEvent(new MouseEvent('click'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should complete once the listener removed itself', () => {
+    [ 'click.o', 'click.*|take[1]', 'click.e|take[2]' ].forEach(eventName => {
+      const events: Event[] = [];
+      const complete: jasmine.Spy = jasmine.createSpy('complete');
+      eventOptionsService.listen(el, eventName).subscribe(event => events.push(event), undefined, complete);
+
+      el.click();
+      el.click();
+      el.click();
+
+      expect(events.length).toEqual(eventName === 'click.e|take[2]' ? 2 : 1);
+      expect(complete).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should resolve the promise of a listener with the `Once` option', async () => {
+    const event: Promise<Event> = eventOptionsService.listen(el, 'click.o').toPromise();
+    el.click();
+
+    await expect((await event).type).toEqual('click');
+  });
+});
@@ -0,0 +1,35 @@
+import { Injectable } from '@angular/core';
+import { Observable, Subscriber } from 'rxjs';
+
+import { ErrorMsg } from '../enum/error-msg.enum';
+import { GlobalEventTarget } from '../enum/global-event-target.enum';
+
+import { DomEventOptionsPlugin } from './dom-event-options-plugin.service';
+
+import { formatError } from '../helper/format-error';
+
+@Injectable()
+export class EventOptionsService {
+
+  constructor(private readonly domEventOptionsPlugin: DomEventOptionsPlugin) {
+  }
+
+  // the native listener is added on subscription, and removed together with pending operator invocations on unsubscription,
+  // the observable completes once the listener removed itself, like with the once option or the take operator
+  listen<E extends Event = Event>(target: 'window' | 'document' | 'body' | EventTarget, eventName: string): Observable<E> {
+    if (!this.domEventOptionsPlugin.supports(eventName)) {
+      throw new Error(formatError(ErrorMsg.UnsupportedEvent, eventName));
+    }
+
+    return new Observable<E>((subscriber: Subscriber<E>) => {
+      const listener: EventListener = (event: Event): void => subscriber.next(event as E);
+      const complete = (): void => subscriber.complete();
+
+      if (typeof target === 'string') {
+        return this.domEventOptionsPlugin.addGlobalEventListener(target as GlobalEventTarget, eventName, listener, complete);
+      }
+
+      return this.domEventOptionsPlugin.addEventListener(target as HTMLElement, eventName, listener, complete);
+    });
+  }
+}
@@ -0,0 +1,102 @@
+import { NgZone } from '@angular/core';
+import { fakeAsync, TestBed, tick } from '@angular/core/testing';
+
+import { DomEventOptionsPlugin } from './dom-event-options-plugin.service';
+import { BrowserEventOptionsSupport } from './browser-event-options-support.service';
+import { EventReplayService } from './event-replay.service';
+import { ServerEventOptionsSupport } from './server-event-options-support.service';
+
+import { EventReplay } from '../enum/event-replay.enum';
+
+import { EventReplayQueue } from '../interface/event-replay-queue.interface';
+
+let eventReplayService: EventReplayService;
+let el: HTMLDivElement;
+
+describe('Event replay service', () => {
+  const createPlugin = (platformId: string): DomEventOptionsPlugin =>
+    new DomEventOptionsPlugin(TestBed.get(NgZone), document, platformId, { replay: true }, [], eventReplayService,
+      platformId === 'browser' ? new BrowserEventOptionsSupport() : new ServerEventOptionsSupport());
+
+  const getRecorderScript = (): HTMLScriptElement | undefined => eventReplayService[ 'recorderScript' ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [ EventReplayService ] });
+    eventReplayService = TestBed.get(EventReplayService);
+    el = document.createElement('div');
+    document.body.appendChild(el);
+  });
+
+  afterEach(() => {
+    const recorderScript: HTMLScriptElement | undefined = getRecorderScript();
+
+    if (recorderScript) {
+      document.head.removeChild(recorderScript);
+    }
+
+    document.body.removeChild(el);
+    delete (window as any)[ EventReplay.GlobalKey ];
+  });
+
+  it('should mark the elements of in browser bindings on the server', () => {
+    const plugin: DomEventOptionsPlugin = createPlugin('server');
+
+    plugin.addEventListener(el, 'click.b', () => void 0);
+    plugin.addEventListener(el, 'keydown.enter.b', () => void 0);
+    plugin.addEventListener(el, 'click.n', () => void 0);
+    plugin.addEventListener(document.body, 'click.b', () => void 0);
+
+    expect(el.getAttribute(EventReplay.Attribute)).toEqual('click:0 keydown:1');
+    expect(document.body.hasAttribute(EventReplay.Attribute)).toBe(false);
+    expect((getRecorderScript() as HTMLScriptElement).textContent).toContain('["click","keydown"]');
+  });
+
+  it('should record the interactions with the marked elements', () => {
+    createPlugin('server').addEventListener(el, 'click.b', () => void 0);
+    new Function((getRecorderScript() as HTMLScriptElement).textContent as string)();
+
+    el.dispatchEvent(new MouseEvent('click', { bubbles: true, shiftKey: true }));
+
+    const queue: EventReplayQueue = (window as any)[ EventReplay.GlobalKey ];
+    queue.stopped = true;
+    el.click();
+
+    expect(queue.events.length).toEqual(1);
+    expect(queue.events[ 0 ]).toEqual(jasmine.objectContaining({ id: 0, type: 'click' }));
+    expect(queue.events[ 0 ].props.shiftKey).toBe(true);
+  });
+
+  it('should replay the recorded interactions through the event options once the listener is added', fakeAsync(() => {
+    const queue: EventReplayQueue = {
+      events: [
+        { id: 0, type: 'keydown', props: { key: 'a' } },
+        { id: 0, type: 'keydown', props: { key: 'Enter' } },
+        { id: 1, type: 'click', props: {} }
+      ],
+      stopped: false
+    };
+    const listener: jasmine.Spy = jasmine.createSpy('listener');
+    (window as any)[ EventReplay.GlobalKey ] = queue;
+
+    createPlugin('browser').addEventListener(el, 'keydown.enter.b', listener);
+
+    expect(queue.stopped).toBe(true);
+    expect(listener).toHaveBeenCalledTimes(0);
+
+    tick();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.calls.mostRecent().args[ 0 ].target).toBe(el);
+    expect(queue.events).toEqual([ { id: 1, type: 'click', props: {} } ]);
+  }));
+
+  it('should not replay the recorded interactions when the listener is removed', fakeAsync(() => {
+    const listener: jasmine.Spy = jasmine.createSpy('listener');
+    (window as any)[ EventReplay.GlobalKey ] = { events: [ { id: 0, type: 'click', props: {} } ], stopped: false };
+
+    createPlugin('browser').addEventListener(el, 'click.b', listener)();
+    tick();
+
+    expect(listener).toHaveBeenCalledTimes(0);
+  }));
+});
@@ -0,0 +1,97 @@
+import { Inject, Injectable } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+
+import { EventReplay } from '../enum/event-replay.enum';
+
+import { EventReplayQueue } from '../interface/event-replay-queue.interface';
+import { RecordedEvent } from '../interface/recorded-event.interface';
+
+import { createReplayEvent } from '../helper/create-replay-event';
+import { eventRecorderScript } from '../helper/event-recorder-script';
+
+@Injectable()
+export class EventReplayService {
+
+  private bindingId = 0;
+
+  private recorderScript?: HTMLScriptElement;
+
+  private readonly recordedTypes: string[] = [];
+
+  private queue?: EventReplayQueue;
+
+  constructor(@Inject(DOCUMENT) private readonly doc: any) {
+  }
+
+  // marks the element on the server, so the recorder script records the interactions before the browser app is bootstrapped
+  record(element: HTMLElement, type: string): void {
+    if (!this.isReplayable(element)) {
+      return;
+    }
+
+    const binding = `${type}:${this.bindingId++}`;
+    const bindings: string = element.getAttribute(EventReplay.Attribute) || '';
+
+    element.setAttribute(EventReplay.Attribute, bindings ? `${bindings} ${binding}` : binding);
+
+    if (!this.recordedTypes.includes(type)) {
+      this.recordedTypes.push(type);
+      this.updateRecorderScript();
+    }
+  }
+
+  // replays the recorded interactions of the event binding after the listener is added in the browser, returns the cancel
+  replay(element: HTMLElement, type: string, listener: EventListener): () => void {
+    if (!this.isReplayable(element)) {
+      return (): void => void 0;
+    }
+
+    const id: number = this.bindingId++;
+    const queue: EventReplayQueue = this.getQueue();
+    const recorded: RecordedEvent[] = queue.events.filter(event => event.id === id && event.type === type);
+
+    if (!recorded.length) {
+      return (): void => void 0;
+    }
+
+    queue.events = queue.events.filter(event => !recorded.includes(event));
+
+    let cancelled = false;
+
+    // a replayed event can remove the event listener, e.g. with the once option
+    const timeout: number | NodeJS.Timer = setTimeout(() => recorded.forEach(event => {
+      if (!cancelled) {
+        listener(createReplayEvent(element, event));
+      }
+    }));
+
+    return (): void => {
+      cancelled = true;
+      clearTimeout(timeout as number);
+    };
+  }
+
+  // the global event targets are not rendered on the server
+  private isReplayable(element: HTMLElement): boolean {
+    return typeof element.getAttribute === 'function' && element !== this.doc.body;
+  }
+
+  // the recording stops once the browser app adds the first event listener
+  private getQueue(): EventReplayQueue {
+    if (!this.queue) {
+      this.queue = (window as any)[ EventReplay.GlobalKey ] as EventReplayQueue || { events: [], stopped: true };
+      this.queue.stopped = true;
+    }
+
+    return this.queue;
+  }
+
+  private updateRecorderScript(): void {
+    if (!this.recorderScript) {
+      this.recorderScript = this.doc.createElement('script') as HTMLScriptElement;
+      this.doc.head.appendChild(this.recorderScript);
+    }
+
+    this.recorderScript.textContent = eventRecorderScript(this.recordedTypes);
+  }
+}
@@ -0,0 +1,12 @@
+import { Injectable } from '@angular/core';
+
+import { EventOptionsSupport } from './event-options-support.service';
+
+@Injectable()
+export class ServerEventOptionsSupport extends EventOptionsSupport {
+
+  // event listeners are not called on the server
+  supports(): boolean {
+    return false;
+  }
+}
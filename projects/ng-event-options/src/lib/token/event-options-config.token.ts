@@ -0,0 +1,5 @@
+import { InjectionToken } from '@angular/core';
+
+import { EventOptionsConfig } from '../interface/event-options-config.interface';
+
+export const EVENT_OPTIONS_CONFIG = new InjectionToken<Partial<EventOptionsConfig>>('EventOptionsConfig');
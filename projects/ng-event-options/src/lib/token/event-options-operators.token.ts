@@ -0,0 +1,5 @@
+import { InjectionToken } from '@angular/core';
+
+import { EventOperator } from '../interface/event-operator.interface';
+
+export const EVENT_OPTIONS_OPERATORS = new InjectionToken<EventOperator[]>('EventOptionsOperators');
@@ -0,0 +1 @@
+export type EventPredicate = (event: Event) => boolean;
@@ -0,0 +1 @@
+export type ListenerGate = (toggle: (active: boolean) => void) => () => void;
@@ -0,0 +1 @@
+export type ObserveElement<E> = (element: Element, callback: (entry: E) => void) => () => void;
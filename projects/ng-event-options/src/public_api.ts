@@ -2,5 +2,29 @@
  * Public API Surface of ng-event-options
  */
 
+export {ConflictStrategy} from './lib/enum/conflict-strategy.enum';
+export {ObserverEventType} from './lib/enum/observer-event-type.enum';
+export {NativeEventOption} from './lib/enum/native-event-option.enum';
+export {OperatorParamType} from './lib/enum/operator-param-type.enum';
 export {OptionSymbol} from './lib/enum/option-symbol.enum';
+export {TeardownStrategy} from './lib/enum/teardown-strategy.enum';
+export {ThrottleEdge} from './lib/enum/throttle-edge.enum';
+export {CancelableEventListener} from './lib/interface/cancelable-event-listener.interface';
+export {DelegateEvent} from './lib/interface/delegate-event.interface';
+export {EventOperator} from './lib/interface/event-operator.interface';
+export {EventOptionsConfig} from './lib/interface/event-options-config.interface';
+export {OperatorDescriptor} from './lib/interface/operator-descriptor.interface';
+export {ResizeObserverEntry} from './lib/interface/resize-observer-entry.interface';
+export {EventPredicate} from './lib/type/event-predicate';
+export {BrowserEventOptionsSupport} from './lib/service/browser-event-options-support.service';
+export {EventOptionsSupport} from './lib/service/event-options-support.service';
+export {EventOptionsService} from './lib/service/event-options.service';
+export {ServerEventOptionsSupport} from './lib/service/server-event-options-support.service';
+export {EVENT_OPTIONS_CONFIG} from './lib/token/event-options-config.token';
+export {EVENT_OPTIONS_OPERATORS} from './lib/token/event-options-operators.token';
 export * from './lib/ng-event-options.module';
+
+// shared with the ng-event-options/testing entry point, not part of the public api
+export {formatOptions as ɵformatOptions} from './lib/grammar/event-name.grammar';
+export {EventDescriptor as ɵEventDescriptor} from './lib/interface/event-descriptor.interface';
+export {DomEventOptionsPlugin as ɵDomEventOptionsPlugin} from './lib/service/dom-event-options-plugin.service';
@@ -16,7 +16,9 @@ getTestBed().initTestEnvironment(
   BrowserDynamicTestingModule,
   platformBrowserDynamicTesting()
 );
-// Then we find all the tests.
+// Then we find all the tests, including the ones of the testing entry point.
 const context = require.context('./', true, /\.spec\.ts$/);
+const testingContext = require.context('../testing/', true, /\.spec\.ts$/);
 // And load the modules.
 context.keys().map(context);
+testingContext.keys().map(testingContext);
@@ -0,0 +1,15 @@
+import { OperatorDescriptor } from 'ng-event-options';
+
+export interface BoundEventListener {
+  target: EventTarget;
+  eventName: string;
+  type: string;
+  key: string;
+  // the option symbols including the global options, like `pn`
+  options: string;
+  // in the order of the event binding
+  operators: OperatorDescriptor[];
+  removed: boolean;
+  // calls the pending operator invocations, like a debounced event
+  flush(): void;
+}
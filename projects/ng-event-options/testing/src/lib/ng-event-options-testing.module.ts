@@ -0,0 +1,35 @@
+import {ModuleWithProviders, NgModule} from '@angular/core';
+import {
+    EVENT_OPTIONS_CONFIG,
+    EventOptionsConfig,
+    EventOptionsSupport,
+    NgEventOptionsModule,
+    ɵDomEventOptionsPlugin as DomEventOptionsPlugin
+} from 'ng-event-options';
+
+import {EventOptionsTestingController} from './service/event-options-testing-controller.service';
+import {TestingEventOptionsPlugin} from './service/testing-event-options-plugin.service';
+import {TestingEventOptionsSupport} from './service/testing-event-options-support.service';
+
+@NgModule({
+    imports: [
+        NgEventOptionsModule
+    ],
+    providers: [
+        TestingEventOptionsPlugin,
+        TestingEventOptionsSupport,
+        EventOptionsTestingController,
+        {provide: DomEventOptionsPlugin, useExisting: TestingEventOptionsPlugin},
+        {provide: EventOptionsSupport, useExisting: TestingEventOptionsSupport}
+    ]
+})
+export class NgEventOptionsTestingModule {
+    static forRoot(config: Partial<EventOptionsConfig> = {}): ModuleWithProviders<NgEventOptionsTestingModule> {
+        return {
+            ngModule: NgEventOptionsTestingModule,
+            providers: [
+                {provide: EVENT_OPTIONS_CONFIG, useValue: config}
+            ]
+        };
+    }
+}
@@ -0,0 +1,104 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { NativeEventOption } from 'ng-event-options';
+
+import { EventOptionsTestingController } from './event-options-testing-controller.service';
+
+import { BoundEventListener } from '../interface/bound-event-listener.interface';
+
+import { NgEventOptionsTestingModule } from '../ng-event-options-testing.module';
+
+@Component({
+  template: `
+    <div id="scroll" (scroll.pn|th[100])="onScroll()"></div>
+    <input id="search" (keydown.enter.d)="onEnter()" (input.*|db[300])="onSearch()">
+    <button id="toggle" *ngIf="visible" (click.s)="onToggle()"></button>
+  `
+})
+class TestComponent {
+  visible = true;
+
+  onScroll(): void {
+  }
+
+  onEnter(): void {
+  }
+
+  onSearch(): void {
+  }
+
+  onToggle(): void {
+  }
+}
+
+describe('Event options testing controller', () => {
+  let fixture: ComponentFixture<TestComponent>;
+  let controller: EventOptionsTestingController;
+
+  const getElement = (id: string): HTMLElement => fixture.nativeElement.querySelector(`#${id}`);
+
+  const createComponent = (): void => {
+    fixture = TestBed.createComponent(TestComponent);
+    fixture.detectChanges();
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [ NgEventOptionsTestingModule.forRoot({ globalOptions: 'b' }) ],
+      declarations: [ TestComponent ]
+    });
+    controller = TestBed.get(EventOptionsTestingController);
+  });
+
+  it('should record the options and operators of the bound listeners', () => {
+    createComponent();
+    const listener: BoundEventListener = controller.getListener(getElement('scroll'), 'scroll') as BoundEventListener;
+
+    expect(listener.options).toEqual('npb');
+    expect(listener.operators).toEqual([ { symbol: 'th', params: [ '100' ] } ]);
+    expect(controller.getListeners(getElement('search')).map(({ type }) => type)).toEqual([ 'keydown', 'input' ]);
+  });
+
+  it('should dispatch events through the listeners with the given properties', () => {
+    createComponent();
+    spyOn(fixture.componentInstance, 'onEnter');
+
+    const event: KeyboardEvent = controller.dispatch<KeyboardEvent>(getElement('search'), 'keydown', { key: 'Enter' });
+    controller.dispatch(getElement('search'), 'keydown', { key: 'a' });
+
+    expect(fixture.componentInstance.onEnter).toHaveBeenCalledTimes(1);
+    expect(event.defaultPrevented).toEqual(true);
+  });
+
+  it('should flush the pending operator invocations', () => {
+    createComponent();
+    spyOn(fixture.componentInstance, 'onSearch');
+
+    controller.dispatch(getElement('search'), 'input');
+    expect(fixture.componentInstance.onSearch).not.toHaveBeenCalled();
+
+    controller.flush(getElement('search'));
+    expect(fixture.componentInstance.onSearch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should mark the listeners of destroyed elements as removed', () => {
+    createComponent();
+    const toggle: HTMLElement = getElement('toggle');
+
+    fixture.componentInstance.visible = false;
+    fixture.detectChanges();
+
+    expect(controller.getListener(toggle, 'click')).toBeUndefined();
+    expect(controller.getListeners(toggle, 'click')[ 0 ].removed).toEqual(true);
+  });
+
+  it('should simulate a browser without native option support', () => {
+    controller.simulateSupport({ [ NativeEventOption.Passive ]: false });
+    const addEventListener: jasmine.Spy = spyOn(HTMLElement.prototype, 'addEventListener').and.callThrough();
+    createComponent();
+
+    const [ , , options ]: any[] = addEventListener.calls.all().find(call => call.args[ 0 ] === 'scroll').args;
+
+    expect(options.passive).toEqual(false);
+  });
+});
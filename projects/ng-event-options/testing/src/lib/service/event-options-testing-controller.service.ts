@@ -0,0 +1,71 @@
+import { Inject, Injectable } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { NativeEventOption } from 'ng-event-options';
+
+import { BoundEventListener } from '../interface/bound-event-listener.interface';
+
+import { TestingEventOptionsPlugin } from './testing-event-options-plugin.service';
+import { TestingEventOptionsSupport } from './testing-event-options-support.service';
+
+@Injectable()
+export class EventOptionsTestingController {
+
+  constructor(private readonly plugin: TestingEventOptionsPlugin,
+              private readonly support: TestingEventOptionsSupport,
+              @Inject(DOCUMENT) private readonly doc: any) {
+  }
+
+  // the event goes through the listeners like a user interaction, the properties are set on the event, like `{ key: 'Enter' }`
+  dispatch<E extends Event = Event>(target: 'window' | 'document' | 'body' | EventTarget,
+                                    event: string | E,
+                                    properties: { [property: string]: any } = {}): E {
+    const dispatched: E = typeof event === 'string' ? new Event(event, { bubbles: true, cancelable: true }) as E : event;
+
+    Object.keys(properties).forEach(property =>
+      Object.defineProperty(dispatched, property, { value: properties[ property ], configurable: true })
+    );
+
+    this.getTarget(target).dispatchEvent(dispatched);
+
+    return dispatched;
+  }
+
+  // the listeners of the target in the order they are added, including the removed ones
+  getListeners(target: 'window' | 'document' | 'body' | EventTarget, type?: string): BoundEventListener[] {
+    const eventTarget: EventTarget = this.getTarget(target);
+
+    return this.plugin.listeners.filter(listener => listener.target === eventTarget && (type === undefined || listener.type === type));
+  }
+
+  getListener(target: 'window' | 'document' | 'body' | EventTarget, type: string): BoundEventListener | undefined {
+    return this.getListeners(target, type).find(listener => !listener.removed);
+  }
+
+  // calls the pending debounce, throttle and other operator invocations right away, instead of waiting for their timers
+  flush(target?: 'window' | 'document' | 'body' | EventTarget): void {
+    const listeners: BoundEventListener[] = target === undefined ? this.plugin.listeners : this.getListeners(target);
+
+    listeners.forEach(listener => listener.flush());
+  }
+
+  // simulates a browser without native support for an option, like `{ passive: false }`, for the listeners added afterwards
+  simulateSupport(support: Partial<{ [O in NativeEventOption]: boolean }>): void {
+    this.support.simulate(support);
+  }
+
+  private getTarget(target: 'window' | 'document' | 'body' | EventTarget): EventTarget {
+    if (target === 'window') {
+      return window;
+    }
+
+    if (target === 'document') {
+      return this.doc;
+    }
+
+    if (target === 'body') {
+      return this.doc.body;
+    }
+
+    return target as EventTarget;
+  }
+}
@@ -0,0 +1,57 @@
+import { Injectable } from '@angular/core';
+import {
+  CancelableEventListener,
+  OperatorDescriptor,
+  ɵDomEventOptionsPlugin as DomEventOptionsPlugin,
+  ɵEventDescriptor as EventDescriptor,
+  ɵformatOptions as formatOptions
+} from 'ng-event-options';
+
+import { BoundEventListener } from '../interface/bound-event-listener.interface';
+
+// records every added listener, so tests can assert how an event binding is applied
+@Injectable()
+export class TestingEventOptionsPlugin extends DomEventOptionsPlugin {
+
+  readonly listeners: BoundEventListener[] = [];
+
+  private operatorCallback?: CancelableEventListener;
+
+  addEventListener(element: HTMLElement, eventName: string, listener: EventListener, complete?: () => void): () => void {
+    const { type, key, options, operators }: EventDescriptor = this.getDescriptor(eventName);
+
+    this.operatorCallback = undefined;
+    const removeListener: () => void = super.addEventListener(element, eventName, listener, complete);
+    const operatorCallback: CancelableEventListener | undefined = this.operatorCallback;
+
+    const boundListener: BoundEventListener = {
+      target: element,
+      eventName,
+      type,
+      key,
+      options: formatOptions(options | this.globalOptions),
+      operators,
+      removed: false,
+      flush: (): void => {
+        if (!boundListener.removed && operatorCallback && operatorCallback.flush) {
+          operatorCallback.flush();
+        }
+      }
+    };
+
+    this.listeners.push(boundListener);
+
+    return (): void => {
+      boundListener.removed = true;
+      removeListener();
+    };
+  }
+
+  // the operators are applied while adding the listener, so the last pipeline belongs to the listener being added
+  protected applyOperators(callback: EventListener,
+                           operators: OperatorDescriptor[],
+                           element: HTMLElement,
+                           remove: () => void): CancelableEventListener {
+    return this.operatorCallback = super.applyOperators(callback, operators, element, remove);
+  }
+}
@@ -0,0 +1,19 @@
+import { Injectable } from '@angular/core';
+import { BrowserEventOptionsSupport, NativeEventOption } from 'ng-event-options';
+
+@Injectable()
+export class TestingEventOptionsSupport extends BrowserEventOptionsSupport {
+
+  private simulatedSupport: Partial<{ [O in NativeEventOption]: boolean }> = {};
+
+  supports(option: NativeEventOption): boolean {
+    const simulated: boolean | undefined = this.simulatedSupport[ option ];
+
+    return simulated === undefined ? super.supports(option) : simulated;
+  }
+
+  // only applies to the listeners added afterwards
+  simulate(support: Partial<{ [O in NativeEventOption]: boolean }>): void {
+    this.simulatedSupport = { ...this.simulatedSupport, ...support };
+  }
+}
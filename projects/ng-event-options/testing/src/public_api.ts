@@ -0,0 +1,7 @@
+/*
+ * Public API Surface of ng-event-options/testing
+ */
+
+export {BoundEventListener} from './lib/interface/bound-event-listener.interface';
+export {EventOptionsTestingController} from './lib/service/event-options-testing-controller.service';
+export * from './lib/ng-event-options-testing.module';
@@ -18,6 +18,9 @@ export class AppComponent {
   // expect "true"
   public ngZoneTest: string = 'ngZoneTest';
 
+  // expect "true"
+  public coalesceTest: string = 'coalesceTest';
+
   // expect "true"
   public captureTest: string = 'captureTest';
 
@@ -65,6 +68,10 @@ export class AppComponent {
     this.ngZone.run(() => this.ngZoneTest = result);
   }
 
+  onCoalesceClick(event: MouseEvent): void {
+    this.coalesceTest = (!NgZone.isInAngularZone()).toString();
+  }
+
   onCaptureParentClick(event: MouseEvent): void {
     this.capturePhase = true;
   }